@@ -10,8 +10,23 @@
  * @author Créé le 2 févrié 2022
  */
 
-import { CrudService, ReadManyResult } from "../../lib/services/crudService";
-import { CrudResult, OperationState, useCRUD, UseCRUDOptions } from "./useCRUD";
+import {
+  ApiCallContext,
+  CrudService,
+  CrudServiceOptions,
+  ReadManyResult,
+} from "../../lib/services/crudService";
+import { EntityEventListener } from "../../lib/services/events";
+import { TypedReadOptions } from "../../lib/services/readOptions";
+import { CrudCallOptions, RetryPolicy } from "../../lib/services/retry";
+import { CrudError } from "../../lib/types/errors";
+import {
+  CrudResult,
+  OperationState,
+  ReadCacheOptions,
+  useCRUD,
+  UseCRUDOptions,
+} from "./useCRUD";
 
 /**
  * Type utilitaire pour les transformateurs de résultats
@@ -52,7 +67,8 @@ type TransformerFunction<TInput, TOutput> = (input: TInput) => TOutput;
  * @template TCreateIn - Type pour création (entrée UI)
  * @template TUpdateIn - Type pour mise à jour (entrée UI)
  * @template TDeleteIn - Type pour suppression (entrée UI)
- * @template TReadParams - Type pour paramètres de lecture
+ * @template TReadParams - Type pour paramètres de lecture, complété par les chemins de
+ * filtre, de tri et d'inclusion de TInfraEntity (`TypedReadOptions`)
  * @template TInfraEntity - Type entité infrastructure
  * @template TUIEntity - Type entité UI (doit être compatible avec la sortie de la transformation)
  * @template TInfraReadManyResult - Type résultat getMany (infrastructure)
@@ -82,6 +98,8 @@ export function createTypedCrud<
     TInfraReadManyResult,
     TUIReadManyResult
   >;
+  // Paramètres de lecture dont le filtre, le tri et les inclusions sont dérivés de l'entité
+  type TypedReadParams = TReadParams & TypedReadOptions<TInfraEntity>;
 
   /**
    * Hook CRUD typé dynamiquement généré
@@ -95,7 +113,7 @@ export function createTypedCrud<
         TCreateIn,
         TUpdateIn,
         TDeleteIn,
-        TReadParams,
+        TypedReadParams,
         TInfraEntity,
         TInfraReadManyResult,
         TCreateIn, // TCreateService (même type que l'entrée)
@@ -111,24 +129,40 @@ export function createTypedCrud<
         validationSchema?: any;
         transformer?: any;
         service?: {
-          getOne?: (id: string, params?: any) => Promise<TInfraEntity>;
-          getMany?: (params?: TReadParams) => Promise<TInfraReadManyResult>;
+          getOne?: (
+            id: string,
+            params?: any,
+            callOptions?: CrudCallOptions
+          ) => Promise<TInfraEntity>;
+          getMany?: (
+            params?: TypedReadParams,
+            callOptions?: CrudCallOptions
+          ) => Promise<TInfraReadManyResult>;
+          subscribe?: (
+            listener: EntityEventListener<TInfraEntity>
+          ) => () => void;
         };
+        retry?: RetryPolicy;
+        timeoutMs?: number;
+        cache?: boolean | ReadCacheOptions;
+        refetchInterval?: number;
+        refetchOnWindowFocus?: boolean;
+        refetchOnReconnect?: boolean;
         beforeValidation?: (
-          params: TReadParams
-        ) => Promise<TReadParams> | TReadParams;
+          params: TypedReadParams
+        ) => Promise<TypedReadParams> | TypedReadParams;
         beforeService?: (
-          params: TReadParams
-        ) => Promise<TReadParams> | TReadParams;
-        onErrorOne?: (error: Error, id: string) => Promise<void> | void;
+          params: TypedReadParams
+        ) => Promise<TypedReadParams> | TypedReadParams;
+        onErrorOne?: (error: CrudError, id: string) => Promise<void> | void;
         onErrorMany?: (
-          error: Error,
-          params: TReadParams
+          error: CrudError,
+          params: TypedReadParams
         ) => Promise<void> | void;
         onSuccessOne?: (result: TUIEntity, id: string) => Promise<void> | void;
         onSuccessMany?: (
           result: TUIReadManyResult,
-          params: TReadParams
+          params: TypedReadParams
         ) => Promise<void> | void;
         initialStateOne?: Partial<OperationState<TUIEntity>>;
         initialStateMany?: Partial<OperationState<TUIReadManyResult>>;
@@ -138,7 +172,7 @@ export function createTypedCrud<
     TCreateIn,
     TUpdateIn,
     TDeleteIn,
-    TReadParams,
+    TypedReadParams,
     TUIEntity, // Type UI pour getOne
     TUIReadManyResult, // Type UI pour getMany
     TUIEntity, // Type UI pour create result
@@ -229,7 +263,7 @@ export function createTypedCrud<
           // Hooks de transformation pour getMany
           afterServiceMany: async (
             result: TInfraReadManyResult,
-            params: TReadParams
+            params: TypedReadParams
           ) => {
             // Utiliser le transformateur personnalisé ou créer une transformation par défaut
             const transformedResult = transformReadManyResult(result);
@@ -246,6 +280,9 @@ export function createTypedCrud<
 
     // Configuration complète avec types transformés correctement
     const typedOptions = {
+      entityName: options.entityName,
+      invalidation: options.invalidation,
+      offline: options.offline,
       create: createOptions,
       update: updateOptions,
       delete: options.delete,
@@ -258,7 +295,7 @@ export function createTypedCrud<
         TCreateIn,
         TUpdateIn,
         TDeleteIn,
-        TReadParams,
+        TypedReadParams,
         TInfraEntity,
         TInfraReadManyResult,
         TCreateIn,
@@ -275,7 +312,7 @@ export function createTypedCrud<
       TCreateIn,
       TUpdateIn,
       TDeleteIn,
-      TReadParams,
+      TypedReadParams,
       TUIEntity,
       TUIReadManyResult,
       TUIEntity,
@@ -325,26 +362,59 @@ export function createTypedService<
    * @param entityName Nom de l'entité
    * @param api Implémentation des méthodes d'API
    * @param transformers Transformateurs pour les conversions de types
+   * @param options Options transverses (journalisation, expurgation, middlewares, résilience)
    * @returns Service CRUD typé
    */
   return (
     entityName: string,
     api: {
-      create?: (data: TCreateEntity) => Promise<TCreateResult>;
-      update?: (data: TUpdateEntity) => Promise<TUpdateResult>;
-      delete?: (data: TDeleteEntity) => Promise<TDeleteResult>;
+      create?: (
+        data: TCreateEntity,
+        context?: ApiCallContext
+      ) => Promise<TCreateResult>;
+      update?: (
+        data: TUpdateEntity,
+        context?: ApiCallContext
+      ) => Promise<TUpdateResult>;
+      delete?: (
+        data: TDeleteEntity,
+        context?: ApiCallContext
+      ) => Promise<TDeleteResult>;
+      createMany?: (
+        data: TCreateEntity[],
+        context?: ApiCallContext
+      ) => Promise<TCreateResult[]>;
+      updateMany?: (
+        data: TUpdateEntity[],
+        context?: ApiCallContext
+      ) => Promise<TUpdateResult[]>;
+      deleteMany?: (
+        data: TDeleteEntity[],
+        context?: ApiCallContext
+      ) => Promise<TDeleteResult[]>;
       getOne?: (
         id: string,
-        params?: Omit<TReadParams, "pagination">
+        params?: Omit<TReadParams, "pagination">,
+        context?: ApiCallContext
       ) => Promise<TReadOneResult>;
-      getMany?: (params?: TReadParams) => Promise<TReadManyResult>;
+      getByIds?: (
+        ids: string[],
+        params?: Omit<TReadParams, "pagination">,
+        context?: ApiCallContext
+      ) => Promise<TReadOneResult[]>;
+      getMany?: (
+        params?: TReadParams,
+        context?: ApiCallContext
+      ) => Promise<TReadManyResult>;
+      subscribe?: (listener: EntityEventListener<TReadOneResult>) => () => void;
     },
     transformers?: {
       createDtoToEntity?: (data: TCreateDTO) => TCreateEntity;
       updateDtoToEntity?: (data: TUpdateDTO) => TUpdateEntity;
       deleteDtoToEntity?: (data: TDeleteDTO) => TDeleteEntity;
       readParamsToQuery?: (params: TReadParams) => unknown;
-    }
+    },
+    options?: CrudServiceOptions
   ): CrudService<
     TCreateDTO,
     TCreateEntity,
@@ -374,6 +444,6 @@ export function createTypedService<
       TReadEntity,
       TReadOneResult,
       TReadManyResult
-    >(entityName, api, transformers);
+    >(entityName, api, transformers, options);
   };
 }
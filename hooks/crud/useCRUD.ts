@@ -8,18 +8,91 @@
  * @author Créé le 9 novembre 2021
  */
 
-import { useState } from "react";
-import { ValidationError, ValidationSchema } from "../../lib/types/validation";
+import { useEffect, useRef, useState } from "react";
+import {
+  InvalidationOptions,
+  InvalidationRule,
+  MutationOperation,
+  applyInvalidationRules,
+  defaultInvalidationRules,
+  selectReadQueries,
+} from "../../lib/services/invalidation";
+import {
+  OptimisticUpdate,
+  applyOptimisticUpdates,
+  defaultOptimisticUpdates,
+} from "../../lib/services/optimistic";
+import {
+  QueryCache,
+  QueryKey,
+  createQueryKey,
+  defaultQueryCache,
+  hashQueryKey,
+} from "../../lib/services/queryCache";
+import {
+  BatchCallOptions,
+  BatchItemResult,
+  BatchOperation,
+  BatchReport,
+  createBatchReport,
+} from "../../lib/services/batch";
+import {
+  EntityEvent,
+  EntityEventListener,
+  applyEntityEvent,
+  subscribeCacheToEvents,
+} from "../../lib/services/events";
+import {
+  OfflineQueue,
+  OfflineQueueState,
+} from "../../lib/services/offlineQueue";
+import { CrudCallOptions, RetryPolicy } from "../../lib/services/retry";
+import {
+  CancelledError,
+  CrudError,
+  CrudOperation,
+  isConflictError,
+  NetworkError,
+  NotImplementedError,
+  toCrudError,
+} from "../../lib/types/errors";
+import { parseSchema, ValidationSchema } from "../../lib/types/validation";
 
 /**
  * Types pour l'état des opérations
  * Définition formelle des états possibles pour une opération CRUD
+ * L'erreur est toujours normalisée dans la taxonomie CRUD (discriminée par `kind`) ;
+ * un conflit d'écriture expose les copies locale et serveur (voir `isConflictError`)
  */
 export interface OperationState<TData = unknown> {
   loading: boolean;
   success: boolean;
-  error: Error | ValidationError | null;
+  error: CrudError | null;
   data: TData | null;
+  // Nombre de tentatives d'appel au service pour l'exécution courante (> 1 : relance)
+  attempt: number;
+  // Exécution annulée explicitement (distincte d'une erreur)
+  cancelled: boolean;
+  // Mise à jour optimiste retirée du cache suite à l'échec de l'exécution
+  rolledBack: boolean;
+  // Mutation mise en file hors ligne, rejouée au retour de la connexion
+  queued: boolean;
+}
+
+/**
+ * État initial d'une opération n'ayant jamais été exécutée
+ */
+function createIdleState<TData>(): OperationState<TData> {
+  return {
+    loading: false,
+    success: false,
+    attempt: 0,
+    cancelled: false,
+    rolledBack: false,
+    queued: false,
+    error: null,
+    data: null,
+  };
 }
 
 /**
@@ -35,9 +108,44 @@ type Transformer<TInput, TOutput> = (data: TInput) => TOutput;
 type BeforeValidationHook<T> = (data: T) => Promise<T> | T;
 type BeforeServiceHook<T> = (data: T) => Promise<T> | T;
 type AfterServiceHook<T, R> = (result: R, originalData: T) => Promise<R> | R;
-type OnErrorHook<T> = (error: Error, originalData: T) => Promise<void> | void;
+type OnErrorHook<T> = (
+  error: CrudError,
+  originalData: T
+) => Promise<void> | void;
 type OnSuccessHook<T, R> = (result: R, originalData: T) => Promise<void> | void;
 
+type ReadOperation = "getOne" | "getMany";
+
+/**
+ * Fenêtre (ms) dans laquelle les signaux de retour sur la page (`focus`, `visibilitychange`)
+ * ne déclenchent qu'une relecture : le retour sur un onglet émet les deux
+ */
+const FOCUS_REFETCH_WINDOW_MS = 100;
+
+/**
+ * Indique si la page est masquée (onglet en arrière-plan)
+ */
+function isDocumentHidden(): boolean {
+  return (
+    typeof document !== "undefined" && document.visibilityState === "hidden"
+  );
+}
+
+/**
+ * Options du cache partagé des lectures (stale-while-revalidate)
+ * Les clés sont construites à partir de `entityName`, de l'identifiant et des
+ * options de lecture normalisées : deux instances lisant la même requête partagent
+ * la même entrée et la même requête en cours
+ */
+export interface ReadCacheOptions {
+  // Cache utilisé (par défaut : cache partagé de l'application)
+  queryCache?: QueryCache;
+  // Durée en ms pendant laquelle une donnée en cache est servie sans revalidation
+  staleTime?: number;
+  // Conservation en ms d'une entrée après le démontage de son dernier lecteur
+  cacheTime?: number;
+}
+
 /**
  * Options pour les opérations de création, mise à jour et suppression
  * Configuration complète du comportement pour chaque type d'opération
@@ -46,7 +154,21 @@ interface OperationOptions<TDataIn, TDataService, TDataOut> {
   validationSchema?: ValidationSchema<TDataIn>;
   transformer?: Transformer<TDataIn, TDataService>;
   resultTransformer?: Transformer<any, TDataOut>;
-  service: (data: TDataService) => Promise<any>;
+  service: (data: TDataService, callOptions?: CrudCallOptions) => Promise<any>;
+  // Service par lot (ex: CrudService.createMany), requis pour les exécutions par lot
+  serviceMany?: (
+    data: TDataService[],
+    callOptions?: BatchCallOptions
+  ) => Promise<BatchReport<TDataService, any>>;
+  // Surcharges de résilience transmises au service
+  retry?: RetryPolicy;
+  timeoutMs?: number;
+  // Requêtes simultanées et taille des paquets des exécutions par lot
+  concurrency?: number;
+  chunkSize?: number;
+  // Prévision appliquée au cache des lectures avant l'appel au service, retirée en cas d'échec
+  // (true : prévisions standard de la mutation, nécessite entityName)
+  optimistic?: boolean | OptimisticUpdate<TDataService>[];
   // Hooks de cycle de vie
   beforeValidation?: BeforeValidationHook<TDataIn>;
   beforeService?: BeforeServiceHook<TDataService>;
@@ -67,10 +189,27 @@ interface ReadOperationOptions<TParams, TOneResult, TManyResult> {
   service?: {
     getOne?: (
       id: string,
-      params?: Omit<TParams, "pagination">
+      params?: Omit<TParams, "pagination">,
+      callOptions?: CrudCallOptions
     ) => Promise<TOneResult>;
-    getMany?: (params?: TParams) => Promise<TManyResult>;
+    getMany?: (
+      params?: TParams,
+      callOptions?: CrudCallOptions
+    ) => Promise<TManyResult>;
+    // Abonnement temps réel (ex: CrudService.subscribe) : les événements sont appliqués
+    // en direct aux résultats de read.one et read.many
+    subscribe?: (listener: EntityEventListener<TOneResult>) => () => void;
   };
+  // Surcharges de résilience transmises au service
+  retry?: RetryPolicy;
+  timeoutMs?: number;
+  // Cache partagé des lectures (nécessite entityName)
+  cache?: boolean | ReadCacheOptions;
+  // Fraîcheur des dernières lectures : relecture périodique (ms), au retour du focus
+  // et au retour de la connexion ; suspendue tant que la page est masquée
+  refetchInterval?: number;
+  refetchOnWindowFocus?: boolean;
+  refetchOnReconnect?: boolean;
   // Hooks de cycle de vie
   beforeValidation?: BeforeValidationHook<TParams>;
   beforeService?: BeforeServiceHook<TParams>;
@@ -103,6 +242,15 @@ export interface UseCRUDOptions<
   TDeleteService = TDeleteIn,
   TDeleteOut = TDeleteIn
 > {
+  // Nom de l'entité (contexte des erreurs, clés du cache des lectures)
+  entityName?: string;
+  // Invalidation des lectures après chaque mutation réussie (par défaut : règles standard,
+  // false pour désactiver) : entrées du cache partagé si entityName est défini, dernières
+  // lectures de l'instance si le cache des lectures est désactivé
+  invalidation?: false | InvalidationOptions;
+  // File des mutations hors ligne (nécessite entityName) : sans connexion ou sur erreur réseau,
+  // les mutations unitaires y sont conservées puis rejouées dans l'ordre
+  offline?: OfflineQueue;
   create?: OperationOptions<TCreateIn, TCreateService, TCreateOut>;
   update?: OperationOptions<TUpdateIn, TUpdateService, TUpdateOut>;
   delete?: OperationOptions<TDeleteIn, TDeleteService, TDeleteOut>;
@@ -124,31 +272,63 @@ export interface CrudResult<
   TUpdateOut = any,
   TDeleteOut = any
 > {
+  // Une mutation unitaire mise en file hors ligne (`state.queued`) se résout au rejeu
+  // avec son résultat, ou est rejetée si le rejeu échoue ou si elle est retirée de la file
   create: {
     state: OperationState<TCreateOut>;
     execute: (data: TCreateIn) => Promise<TCreateOut>;
     reset: () => void;
+    cancel: () => void;
   };
   update: {
     state: OperationState<TUpdateOut>;
     execute: (data: TUpdateIn) => Promise<TUpdateOut>;
     reset: () => void;
+    cancel: () => void;
   };
   delete: {
     state: OperationState<TDeleteOut>;
     execute: (data: TDeleteIn) => Promise<TDeleteOut>;
     reset: () => void;
+    cancel: () => void;
   };
+  createMany: {
+    state: OperationState<BatchReport<TCreateIn, TCreateOut>>;
+    execute: (data: TCreateIn[]) => Promise<BatchReport<TCreateIn, TCreateOut>>;
+    reset: () => void;
+    cancel: () => void;
+  };
+  updateMany: {
+    state: OperationState<BatchReport<TUpdateIn, TUpdateOut>>;
+    execute: (data: TUpdateIn[]) => Promise<BatchReport<TUpdateIn, TUpdateOut>>;
+    reset: () => void;
+    cancel: () => void;
+  };
+  deleteMany: {
+    state: OperationState<BatchReport<TDeleteIn, TDeleteOut>>;
+    execute: (data: TDeleteIn[]) => Promise<BatchReport<TDeleteIn, TDeleteOut>>;
+    reset: () => void;
+    cancel: () => void;
+  };
+  offline: {
+    // État de la file (null si aucune file n'est configurée)
+    state: OfflineQueueState | null;
+    replay: () => Promise<void>;
+  };
+  // Une lecture remplacée par une nouvelle exécution se résout avec le résultat de celle-ci ;
+  // une lecture annulée (cancel, démontage) est rejetée avec CancelledError
   read: {
     one: {
       state: OperationState<TReadOneResult>;
       execute: (id: string, params?: any) => Promise<TReadOneResult>;
       reset: () => void;
+      cancel: () => void;
     };
     many: {
       state: OperationState<TReadManyResult>;
       execute: (params?: TReadParams) => Promise<TReadManyResult>;
       reset: () => void;
+      cancel: () => void;
     };
   };
 }
@@ -216,6 +396,10 @@ export function useCRUD<
   const [createState, setCreateState] = useState<OperationState<TCreateOut>>({
     loading: false,
     success: false,
+    attempt: 0,
+    cancelled: false,
+    rolledBack: false,
+    queued: false,
     error: null,
     data: null,
     ...(options.create?.initialState || {}),
@@ -224,6 +408,10 @@ export function useCRUD<
   const [updateState, setUpdateState] = useState<OperationState<TUpdateOut>>({
     loading: false,
     success: false,
+    attempt: 0,
+    cancelled: false,
+    rolledBack: false,
+    queued: false,
     error: null,
     data: null,
     ...(options.update?.initialState || {}),
@@ -232,17 +420,39 @@ export function useCRUD<
   const [deleteState, setDeleteState] = useState<OperationState<TDeleteOut>>({
     loading: false,
     success: false,
+    attempt: 0,
+    cancelled: false,
+    rolledBack: false,
+    queued: false,
     error: null,
     data: null,
     ...(options.delete?.initialState || {}),
   });
 
+  // États pour les opérations par lot
+  const [createManyState, setCreateManyState] =
+    useState<OperationState<BatchReport<TCreateIn, TCreateOut>>>(
+      createIdleState
+    );
+  const [updateManyState, setUpdateManyState] =
+    useState<OperationState<BatchReport<TUpdateIn, TUpdateOut>>>(
+      createIdleState
+    );
+  const [deleteManyState, setDeleteManyState] =
+    useState<OperationState<BatchReport<TDeleteIn, TDeleteOut>>>(
+      createIdleState
+    );
+
   // États pour les opérations Read
   const [readOneState, setReadOneState] = useState<
     OperationState<TReadOneResult>
   >({
     loading: false,
     success: false,
+    attempt: 0,
+    cancelled: false,
+    rolledBack: false,
+    queued: false,
     error: null,
     data: null,
     ...(options.read?.initialStateOne || {}),
@@ -253,70 +463,649 @@ export function useCRUD<
   >({
     loading: false,
     success: false,
+    attempt: 0,
+    cancelled: false,
+    rolledBack: false,
+    queued: false,
     error: null,
     data: null,
     ...(options.read?.initialStateMany || {}),
   });
 
+  // Contrôleurs d'annulation des exécutions en cours, par opération et par appel
+  const controllersRef = useRef<
+    Partial<Record<CrudOperation, Set<AbortController>>>
+  >({});
+
+  // Dernière lecture demandée par opération, et lecture qui remplace chacune d'elles
+  const latestReadsRef = useRef<
+    Partial<Record<ReadOperation, Promise<unknown>>>
+  >({});
+  const successorsRef = useRef(
+    new WeakMap<Promise<unknown>, Promise<unknown>>()
+  );
+
+  // Abonnements au cache partagé, sur la clé de la dernière lecture
+  const subscriptionsRef = useRef<
+    Partial<Record<ReadOperation, { hash: string; unsubscribe: () => void }>>
+  >({});
+
+  // Clé des lectures en attente d'une requête au premier plan
+  const foregroundRef = useRef<Partial<Record<ReadOperation, string>>>({});
+
+  // État de la file hors ligne et rejeu avec la configuration du dernier rendu
+  const [offlineState, setOfflineState] = useState<OfflineQueueState | null>(
+    () => options.offline?.getState() ?? null
+  );
+  const replayRef =
+    useRef<(operation: MutationOperation, data: unknown) => Promise<unknown>>();
+
+  useEffect(() => {
+    const queue = options.offline;
+    const entityName = options.entityName;
+    if (!queue || !entityName) {
+      setOfflineState(null);
+      return;
+    }
+
+    setOfflineState(queue.getState());
+    const unsubscribe = queue.subscribe(setOfflineState);
+    const replay = (operation: MutationOperation) => (data: unknown) =>
+      replayRef.current!(operation, data);
+    const unregister = queue.register(entityName, {
+      create: replay("create"),
+      update: replay("update"),
+      delete: replay("delete"),
+    });
+
+    return () => {
+      unsubscribe();
+      unregister();
+    };
+  }, [options.offline, options.entityName]);
+
+  // Derniers résultats bruts des lectures (avant afterService), cibles des événements temps réel
+  const liveReadsRef = useRef<{
+    getOne?: { id: string; data: TReadOneResult };
+    getMany?: { params: TReadParams; data: TReadManyResult };
+  }>({});
+  const readEventRef = useRef<(event: EntityEvent<TReadOneResult>) => void>();
+
+  // Abonnement temps réel du service de lecture : partagé par cache et par entité avec le
+  // cache des lectures (les instances suivent le cache), propre à l'instance sinon
+  const subscribe = options.read?.service?.subscribe;
+  const readCacheConfig = options.read?.cache;
+  const eventCache =
+    readCacheConfig && options.entityName
+      ? (typeof readCacheConfig === "object" && readCacheConfig.queryCache) ||
+        defaultQueryCache
+      : undefined;
+  useEffect(() => {
+    if (!subscribe) {
+      return;
+    }
+    if (eventCache && options.entityName) {
+      return subscribeCacheToEvents(eventCache, options.entityName, subscribe);
+    }
+    return subscribe((event) => readEventRef.current?.(event));
+  }, [subscribe, eventCache, options.entityName]);
+
+  // Dernières lectures exécutées, relues par le polling et au retour du focus ou de la connexion
+  const lastReadsRef = useRef<{
+    getOne?: { id: string; params?: Omit<TReadParams, "pagination"> };
+    getMany?: { params?: TReadParams };
+  }>({});
+  const refetchRef = useRef<() => void>();
+
+  const refetchInterval = options.read?.refetchInterval;
+  useEffect(() => {
+    if (!refetchInterval || refetchInterval <= 0) {
+      return;
+    }
+    const timer = setInterval(() => refetchRef.current?.(), refetchInterval);
+    return () => clearInterval(timer);
+  }, [refetchInterval]);
+
+  const refetchOnWindowFocus = options.read?.refetchOnWindowFocus ?? false;
+  const refetchOnReconnect = options.read?.refetchOnReconnect ?? false;
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    const refetch = () => refetchRef.current?.();
+    let lastFocusRefetch = -Infinity;
+    const refetchOnFocus = () => {
+      const now = Date.now();
+      if (
+        isDocumentHidden() ||
+        now - lastFocusRefetch < FOCUS_REFETCH_WINDOW_MS
+      ) {
+        return;
+      }
+      lastFocusRefetch = now;
+      refetch();
+    };
+    if (refetchOnWindowFocus) {
+      window.addEventListener("focus", refetchOnFocus);
+      document.addEventListener("visibilitychange", refetchOnFocus);
+    }
+    if (refetchOnReconnect) {
+      window.addEventListener("online", refetch);
+    }
+
+    return () => {
+      window.removeEventListener("focus", refetchOnFocus);
+      document.removeEventListener("visibilitychange", refetchOnFocus);
+      window.removeEventListener("online", refetch);
+    };
+  }, [refetchOnWindowFocus, refetchOnReconnect]);
+
+  // Annulation des lectures en cours au démontage du composant
+  // Les mutations sont menées à terme pour ne pas perdre d'écriture
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    const subscriptions = subscriptionsRef.current;
+    return () => {
+      latestReadsRef.current = {};
+      controllers.getOne?.forEach((controller) => controller.abort());
+      controllers.getMany?.forEach((controller) => controller.abort());
+      subscriptions.getOne?.unsubscribe();
+      subscriptions.getMany?.unsubscribe();
+    };
+  }, []);
+
+  /**
+   * Démarre une exécution annulable
+   * Pour les lectures, l'exécution précédente de la même opération est remplacée et annulée ;
+   * les mutations concurrentes d'une même opération sont suivies chacune
+   */
+  const startExecution = (
+    operation: CrudOperation,
+    supersede: boolean
+  ): AbortController => {
+    const controllers = controllersRef.current[operation] ?? new Set();
+    if (supersede) {
+      controllers.forEach((previous) => previous.abort());
+      controllers.clear();
+    }
+    const controller = new AbortController();
+    controllers.add(controller);
+    controllersRef.current[operation] = controllers;
+    return controller;
+  };
+
+  /**
+   * Suit une lecture demandée par l'appelant
+   * Une lecture remplacée par la suivante se résout avec le résultat de celle-ci plutôt
+   * que d'être rejetée, pour qu'un appel non attendu (ex: recherche à la frappe)
+   * ne produise pas de rejet non traité
+   */
+  const trackRead = <TResult>(
+    operation: ReadOperation,
+    run: () => Promise<TResult>
+  ): Promise<TResult> => {
+    const previous = latestReadsRef.current[operation];
+    const tracked: Promise<TResult> = run().catch((error) => {
+      const successor = successorsRef.current.get(tracked);
+      if (error instanceof CancelledError && successor) {
+        return successor as Promise<TResult>;
+      }
+      throw error;
+    });
+
+    if (previous) {
+      successorsRef.current.set(previous, tracked);
+    }
+    latestReadsRef.current[operation] = tracked;
+    return tracked;
+  };
+
+  /**
+   * Libère le contrôleur d'une exécution terminée
+   */
+  const finishExecution = (
+    operation: CrudOperation,
+    controller: AbortController
+  ): void => {
+    const controllers = controllersRef.current[operation];
+    controllers?.delete(controller);
+    if (controllers?.size === 0) {
+      delete controllersRef.current[operation];
+    }
+  };
+
+  /**
+   * Annule explicitement les exécutions en cours d'une opération
+   * L'état passe à `cancelled` sans erreur
+   */
+  const cancelExecution = <TData>(
+    operation: CrudOperation,
+    setState: React.Dispatch<React.SetStateAction<OperationState<TData>>>
+  ): void => {
+    const controllers = controllersRef.current[operation];
+    if (!controllers) {
+      return;
+    }
+
+    controllers.forEach((controller) => controller.abort());
+    delete controllersRef.current[operation];
+    setState((previous) => ({
+      ...previous,
+      loading: false,
+      cancelled: true,
+      queued: false,
+    }));
+  };
+
+  /**
+   * Cache des lectures de l'instance (cache partagé par défaut)
+   */
+  const resolveQueryCache = (): QueryCache => {
+    const cacheConfig = options.read?.cache;
+    return (
+      (typeof cacheConfig === "object" && cacheConfig.queryCache) ||
+      defaultQueryCache
+    );
+  };
+
+  /**
+   * Résout la configuration du cache des lectures (undefined si désactivé)
+   */
+  const resolveReadCache = () => {
+    const config = options.read?.cache;
+    if (!config) {
+      return undefined;
+    }
+    if (!options.entityName) {
+      throw new Error("Read cache requires an entityName");
+    }
+
+    const settings = config === true ? {} : config;
+    return {
+      entityName: options.entityName,
+      queryCache: resolveQueryCache(),
+      staleTime: settings.staleTime,
+      cacheTime: settings.cacheTime,
+    };
+  };
+
+  /**
+   * Invalide les lectures dépendantes d'une mutation réussie, pour toutes les instances
+   * Sans cache des lectures, les dernières lectures de l'instance visées par les règles
+   * sont relues directement
+   */
+  const invalidateReads = (
+    operation: MutationOperation,
+    data: unknown,
+    result: unknown
+  ): void => {
+    if (options.invalidation === false) {
+      return;
+    }
+
+    const rules =
+      options.invalidation?.[operation] ?? defaultInvalidationRules[operation];
+    if (!rules) {
+      return;
+    }
+
+    if (options.entityName) {
+      applyInvalidationRules(
+        resolveQueryCache(),
+        options.entityName,
+        rules,
+        data,
+        result
+      );
+    }
+    if (!options.read?.cache) {
+      refreshLastReads(rules, data, result);
+    }
+  };
+
+  /**
+   * Applique les règles d'invalidation aux dernières lectures de l'instance (cache désactivé)
+   * Une entité évincée est retirée de l'état ; les autres lectures visées sont relues
+   * en arrière-plan et remplacent une lecture en cours, partie avant la mutation
+   */
+  const refreshLastReads = (
+    rules: InvalidationRule[],
+    data: unknown,
+    result: unknown
+  ): void => {
+    const entityName = options.entityName ?? "";
+    const { getOne, getMany } = lastReadsRef.current;
+    const targets = (key: QueryKey) =>
+      rules.filter((rule) =>
+        selectReadQueries(
+          rule.entityName ?? entityName,
+          rule.operation,
+          rule.id?.(data, result)
+        )(key)
+      );
+
+    if (getOne) {
+      const matched = targets([entityName, "getOne", getOne.id]);
+      if (matched.some((rule) => rule.action === "remove")) {
+        delete liveReadsRef.current.getOne;
+        setReadOneState((previous) => ({ ...previous, data: null }));
+      } else if (matched.length > 0) {
+        trackRead("getOne", () =>
+          executeReadOne(getOne.id, getOne.params, true)
+        ).catch(() => undefined);
+      }
+    }
+
+    if (getMany && targets([entityName, "getMany"]).length > 0) {
+      trackRead("getMany", () => executeReadMany(getMany.params, true)).catch(
+        () => undefined
+      );
+    }
+  };
+
+  /**
+   * Applique la prévision optimiste d'une mutation au cache des lectures
+   *
+   * @returns Fonction de restauration, undefined si aucune prévision n'est configurée
+   */
+  const applyOptimistic = <TService>(
+    operation: MutationOperation,
+    optimistic: boolean | OptimisticUpdate<TService>[] | undefined,
+    data: TService
+  ): (() => void) | undefined => {
+    if (!optimistic || !options.entityName) {
+      return undefined;
+    }
+
+    const updates =
+      optimistic === true ? defaultOptimisticUpdates[operation] : optimistic;
+    return applyOptimisticUpdates(
+      resolveQueryCache(),
+      options.entityName,
+      updates,
+      data
+    );
+  };
+
+  /**
+   * Lecture à travers le cache partagé
+   * Une donnée en cache est servie immédiatement ; si elle est périmée, `revalidate`
+   * relance la requête en arrière-plan et l'abonnement publie la nouvelle valeur
+   */
+  const readThroughCache = async <TResult>(
+    operation: ReadOperation,
+    cache: NonNullable<ReturnType<typeof resolveReadCache>>,
+    key: QueryKey,
+    fetcher: () => Promise<TResult>,
+    signal: AbortSignal,
+    publish: (data: TResult) => Promise<void>,
+    onRemove?: () => void
+  ): Promise<{ data: TResult; revalidate?: () => void }> => {
+    const { queryCache } = cache;
+    const hash = hashQueryKey(key);
+
+    // Abonnement de l'instance à la clé de sa dernière lecture
+    const subscription = subscriptionsRef.current[operation];
+    if (subscription?.hash !== hash) {
+      subscription?.unsubscribe();
+      subscriptionsRef.current[operation] = {
+        hash,
+        unsubscribe: queryCache.subscribe<TResult>(
+          key,
+          (data) => {
+            // Une lecture au premier plan publie elle-même son résultat
+            if (foregroundRef.current[operation] !== hash) {
+              publish(data).catch(() => undefined);
+            }
+          },
+          cache.cacheTime,
+          onRemove
+        ),
+      };
+    }
+
+    if (queryCache.hasData(key)) {
+      return {
+        data: queryCache.getData<TResult>(key) as TResult,
+        revalidate: queryCache.isStale(key, cache.staleTime)
+          ? () => {
+              queryCache.fetch(key, fetcher).catch(() => undefined);
+            }
+          : undefined,
+      };
+    }
+
+    foregroundRef.current[operation] = hash;
+    try {
+      return { data: await queryCache.fetch(key, fetcher, signal) };
+    } finally {
+      if (foregroundRef.current[operation] === hash) {
+        delete foregroundRef.current[operation];
+      }
+    }
+  };
+
+  /**
+   * Ajoute une mutation à la file hors ligne et attend son rejeu
+   * L'annulation de l'exécution retire la mutation de la file et invalide les lectures,
+   * qui perdent ainsi sa prévision optimiste
+   *
+   * @returns Résultat brut du service au rejeu
+   * @throws Erreur du rejet définitif, CancelledError si la mutation est retirée de la file
+   */
+  const enqueueMutation = (
+    queue: OfflineQueue,
+    operation: MutationOperation,
+    data: unknown,
+    signal: AbortSignal
+  ): Promise<unknown> => {
+    const entityName = options.entityName;
+    if (!entityName) {
+      return Promise.reject(new Error("Offline queue requires an entityName"));
+    }
+
+    return new Promise((resolve, reject) => {
+      queue
+        .enqueue(entityName, operation, data, (outcome) =>
+          outcome.status === "fulfilled"
+            ? resolve(outcome.result)
+            : reject(outcome.error)
+        )
+        .then((mutation) => {
+          const discard = () => {
+            queue
+              .discard(mutation.id)
+              .finally(() => invalidateReads(operation, data, undefined))
+              .catch(() => undefined);
+          };
+          if (signal.aborted) {
+            discard();
+          } else {
+            signal.addEventListener("abort", discard, { once: true });
+          }
+        }, reject);
+    });
+  };
+
+  /**
+   * Rejoue une mutation de la file hors ligne avec la configuration courante
+   * Les lectures sont invalidées dans tous les cas : une mutation rejetée retire ainsi
+   * sa prévision optimiste
+   */
+  const replayMutation = async (
+    operation: MutationOperation,
+    data: unknown
+  ): Promise<unknown> => {
+    const service = options[operation]?.service as
+      | ((data: unknown, callOptions?: CrudCallOptions) => Promise<unknown>)
+      | undefined;
+    if (!service) {
+      throw new NotImplementedError("Operation not configured", {
+        entityName: options.entityName,
+        operation,
+      });
+    }
+
+    let result: unknown;
+    try {
+      result = await service(data, {
+        retry: options[operation]?.retry,
+        timeoutMs: options[operation]?.timeoutMs,
+      });
+      return result;
+    } finally {
+      invalidateReads(operation, data, result);
+    }
+  };
+  replayRef.current = replayMutation;
+
+  /**
+   * Phases 1 à 4 d'une mutation : hook before validation, validation,
+   * transformation UI → Service et hook before service
+   *
+   * @throws Erreur de validation normalisée si le schéma rejette les données
+   */
+  const prepareMutation = async <TIn, TService, TOut>(
+    operation: MutationOperation,
+    data: TIn,
+    opOptions: OperationOptions<TIn, TService, TOut>
+  ): Promise<{ processedData: TIn; serviceData: TService }> => {
+    // Phase 1: Hook before validation (pré-transformation)
+    let processedData = data;
+    if (opOptions.beforeValidation) {
+      processedData = await opOptions.beforeValidation(processedData);
+    }
+
+    // Phase 2: Validation polymorphique avec schéma Zod
+    if (opOptions.validationSchema) {
+      try {
+        processedData = await parseSchema(
+          opOptions.validationSchema,
+          processedData
+        );
+      } catch (validationError) {
+        // Gestion typée des erreurs de validation
+        throw toCrudError(validationError, {
+          entityName: options.entityName,
+          operation,
+        });
+      }
+    }
+
+    // Phase 3: Transformation des données (UI → Service)
+    let serviceData = processedData as unknown as TService;
+    if (opOptions.transformer) {
+      serviceData = opOptions.transformer(processedData);
+    }
+
+    // Phase 4: Hook before service (post-transformation)
+    if (opOptions.beforeService) {
+      serviceData = await opOptions.beforeService(serviceData);
+    }
+
+    return { processedData, serviceData };
+  };
+
   /**
    * Fonction générique pour exécuter une opération CRUD
    * Implémente le flux de traitement complet avec validation et hooks
    */
   const executeOperation = async <TIn, TService, TOut>(
+    operation: MutationOperation,
     data: TIn,
     opOptions: OperationOptions<TIn, TService, TOut> | undefined,
     setState: React.Dispatch<React.SetStateAction<OperationState<TOut>>>
   ): Promise<TOut> => {
+    const errorContext = { entityName: options.entityName, operation };
+
     if (!opOptions || !opOptions.service) {
-      throw new Error("Operation not configured");
+      throw new NotImplementedError("Operation not configured", errorContext);
     }
 
+    const controller = startExecution(operation, false);
+
+    // Suivi des tentatives remontées par le service
+    let attempt = 0;
+    const callOptions: CrudCallOptions = {
+      retry: opOptions.retry,
+      timeoutMs: opOptions.timeoutMs,
+      signal: controller.signal,
+      onAttempt: (current) => {
+        attempt = current;
+        if (!controller.signal.aborted) {
+          setState((previous) => ({ ...previous, attempt: current }));
+        }
+      },
+    };
+
+    // Restauration du cache tant que la prévision optimiste n'est pas confirmée
+    let rollback: (() => void) | undefined;
+    // Mutation mise en file hors ligne, dont le rejeu invalide lui-même les lectures
+    let queued = false;
+
     // Construction d'un nouvel état atomique - début du chargement
     setState({
       loading: true,
       success: false,
+      attempt: 0,
+      cancelled: false,
+      rolledBack: false,
+      queued: false,
       error: null,
       data: null,
     });
 
     try {
-      // Phase 1: Hook before validation (pré-transformation)
-      let processedData = data;
-      if (opOptions.beforeValidation) {
-        processedData = await opOptions.beforeValidation(processedData);
-      }
+      // Phases 1 à 4: préparation des données (validation, transformation)
+      const { processedData, serviceData } = await prepareMutation(
+        operation,
+        data,
+        opOptions
+      );
 
-      // Phase 2: Validation polymorphique avec schéma Zod
-      if (opOptions.validationSchema) {
-        try {
-          processedData = opOptions.validationSchema.parse(processedData);
-        } catch (validationError) {
-          // Gestion typée des erreurs de validation
-          const typedError = validationError as ValidationError;
-          setState({
-            data: null,
-            loading: false,
-            error: typedError,
-            success: false,
-          });
-          throw typedError;
+      // Prévision optimiste visible par toutes les lectures en cache
+      rollback = applyOptimistic(operation, opOptions.optimistic, serviceData);
+
+      // Phase 5: Appel au service (isomorphisme UI → Infrastructure)
+      let serviceResult: unknown;
+      try {
+        // Une mutation ne double jamais celles de la même entité restées en file
+        if (
+          options.offline &&
+          (!options.offline.isOnline() ||
+            options.offline.hasPending(options.entityName))
+        ) {
+          throw new NetworkError("Offline", errorContext);
+        }
+        serviceResult = await opOptions.service(serviceData, callOptions);
+      } catch (serviceError) {
+        if (
+          !options.offline ||
+          controller.signal.aborted ||
+          toCrudError(serviceError, errorContext).kind !== "network"
+        ) {
+          throw serviceError;
         }
-      }
 
-      // Phase 3: Transformation des données (UI → Service)
-      let serviceData = processedData as unknown as TService;
-      if (opOptions.transformer) {
-        serviceData = opOptions.transformer(processedData);
+        // Hors ligne : mise en file, la prévision optimiste est conservée jusqu'au rejeu,
+        // dont le résultat poursuit l'exécution
+        rollback = undefined;
+        queued = true;
+        setState({ ...createIdleState<TOut>(), queued: true });
+        serviceResult = await enqueueMutation(
+          options.offline,
+          operation,
+          serviceData,
+          controller.signal
+        );
       }
 
-      // Phase 4: Hook before service (post-transformation)
-      if (opOptions.beforeService) {
-        serviceData = await opOptions.beforeService(serviceData);
+      // Invalidation des lectures dépendantes : l'écriture est effective côté serveur
+      if (!queued) {
+        invalidateReads(operation, serviceData, serviceResult);
       }
 
-      // Phase 5: Appel au service (isomorphisme UI → Infrastructure)
-      const serviceResult = await opOptions.service(serviceData);
-
       // Phase 6: Transformation du résultat si nécessaire
       let result = serviceResult as unknown as TOut;
       if (opOptions.resultTransformer) {
@@ -328,12 +1117,24 @@ export function useCRUD<
         result = await opOptions.afterService(result, serviceData);
       }
 
+      // Une exécution annulée ne publie jamais son résultat
+      if (controller.signal.aborted) {
+        throw new CancelledError("Operation cancelled", errorContext);
+      }
+
+      // La prévision optimiste est confirmée
+      rollback = undefined;
+
       // Phase 8: Construction d'un nouvel état atomique - succès
       setState({
         data: result,
         loading: false,
         error: null,
         success: true,
+        attempt,
+        cancelled: false,
+        rolledBack: false,
+        queued: false,
       });
 
       // Phase 9: Hook on success (notification, effets secondaires)
@@ -343,8 +1144,34 @@ export function useCRUD<
 
       return result;
     } catch (error) {
+      // Retrait de la prévision optimiste non confirmée
+      const rolledBack = rollback !== undefined;
+      rollback?.();
+
+      // Exécution annulée : ni état d'erreur ni hook onError
+      if (controller.signal.aborted) {
+        if (rolledBack) {
+          setState((previous) => ({ ...previous, rolledBack }));
+        }
+        throw error instanceof CancelledError
+          ? error
+          : new CancelledError("Operation cancelled", {
+              ...errorContext,
+              cause: error,
+            });
+      }
+
       // Gestion des erreurs avec hooks spécifiques
-      const typedError = error as Error;
+      const typedError = toCrudError(error, errorContext);
+
+      // Conflit d'écriture : la copie locale est conservée pour une fusion par l'UI
+      // et les lectures en cache, devenues obsolètes, sont rafraîchies
+      if (isConflictError(typedError)) {
+        if (typedError.local === undefined) {
+          typedError.local = data;
+        }
+        invalidateReads(operation, data, undefined);
+      }
 
       // Construction d'un nouvel état atomique - erreur
       setState({
@@ -352,6 +1179,10 @@ export function useCRUD<
         loading: false,
         error: typedError,
         success: false,
+        attempt,
+        cancelled: false,
+        rolledBack,
+        queued: false,
       });
 
       // Hook on error (logging, notification)
@@ -360,32 +1191,338 @@ export function useCRUD<
       }
 
       throw typedError;
+    } finally {
+      finishExecution(operation, controller);
+    }
+  };
+
+  /**
+   * Exécute une mutation par lot
+   * Chaque élément suit les phases de la mutation unitaire ; un élément invalide ou rejeté
+   * est consigné dans le rapport sans interrompre le lot. Les hooks onSuccess et onError
+   * unitaires ne sont pas appelés pour les éléments d'un lot.
+   */
+  const executeBatch = async <TIn, TService, TOut>(
+    operation: MutationOperation,
+    items: TIn[],
+    opOptions: OperationOptions<TIn, TService, TOut> | undefined,
+    setState: React.Dispatch<
+      React.SetStateAction<OperationState<BatchReport<TIn, TOut>>>
+    >
+  ): Promise<BatchReport<TIn, TOut>> => {
+    const batchOperation = `${operation}Many` as BatchOperation;
+    const errorContext = {
+      entityName: options.entityName,
+      operation: batchOperation,
+    };
+
+    if (!opOptions || !opOptions.serviceMany) {
+      throw new NotImplementedError(
+        "Batch operation not configured",
+        errorContext
+      );
+    }
+
+    const controller = startExecution(batchOperation, false);
+
+    // Suivi des tentatives remontées par le service
+    let attempt = 0;
+    const callOptions: BatchCallOptions = {
+      retry: opOptions.retry,
+      timeoutMs: opOptions.timeoutMs,
+      concurrency: opOptions.concurrency,
+      chunkSize: opOptions.chunkSize,
+      signal: controller.signal,
+      onAttempt: (current) => {
+        attempt = current;
+        if (!controller.signal.aborted) {
+          setState((previous) => ({ ...previous, attempt: current }));
+        }
+      },
+    };
+
+    // Construction d'un nouvel état atomique - début du chargement
+    setState({ ...createIdleState(), loading: true });
+
+    try {
+      const outcomes: BatchItemResult<TIn, TOut>[] = [];
+
+      // Phases 1 à 4 par élément : un élément invalide n'est pas envoyé
+      const prepared: Array<{ index: number; input: TIn; data: TService }> = [];
+      for (let index = 0; index < items.length; index++) {
+        const input = items[index];
+        try {
+          const { serviceData } = await prepareMutation(
+            operation,
+            input,
+            opOptions
+          );
+          prepared.push({ index, input, data: serviceData });
+        } catch (error) {
+          outcomes.push({
+            index,
+            input,
+            status: "rejected",
+            error: toCrudError(error, errorContext),
+          });
+        }
+      }
+
+      // Phase 5: Appel au service par lot
+      const report =
+        prepared.length > 0
+          ? await opOptions.serviceMany(
+              prepared.map((item) => item.data),
+              callOptions
+            )
+          : createBatchReport<TService, unknown>([]);
+
+      // Phases 6 et 7 par élément accepté
+      for (const item of report.items) {
+        const { index, input, data } = prepared[item.index];
+        if (item.status === "rejected") {
+          outcomes.push({
+            index,
+            input,
+            status: "rejected",
+            error: item.error,
+          });
+          continue;
+        }
+
+        try {
+          invalidateReads(operation, data, item.result);
+
+          let result = item.result as TOut;
+          if (opOptions.resultTransformer) {
+            result = opOptions.resultTransformer(item.result);
+          }
+          if (opOptions.afterService) {
+            result = await opOptions.afterService(result, data);
+          }
+          outcomes.push({ index, input, status: "fulfilled", result });
+        } catch (error) {
+          outcomes.push({
+            index,
+            input,
+            status: "rejected",
+            error: toCrudError(error, errorContext),
+          });
+        }
+      }
+
+      // Une exécution annulée ne publie jamais son résultat
+      if (controller.signal.aborted) {
+        throw new CancelledError("Operation cancelled", errorContext);
+      }
+
+      // Construction d'un nouvel état atomique - succès, éventuellement partiel
+      const batchReport = createBatchReport(outcomes);
+      setState({
+        ...createIdleState(),
+        data: batchReport,
+        success: true,
+        attempt,
+      });
+
+      return batchReport;
+    } catch (error) {
+      // Exécution annulée : pas d'état d'erreur
+      if (controller.signal.aborted) {
+        throw error instanceof CancelledError
+          ? error
+          : new CancelledError("Operation cancelled", {
+              ...errorContext,
+              cause: error,
+            });
+      }
+
+      // Échec du lot entier (configuration, annulation côté service...)
+      const typedError = toCrudError(error, errorContext);
+      setState({ ...createIdleState(), error: typedError, attempt });
+      throw typedError;
+    } finally {
+      finishExecution(batchOperation, controller);
     }
   };
 
+  /**
+   * Publie une nouvelle valeur de getOne reçue du cache partagé ou d'un événement
+   */
+  const publishReadOne = async (
+    data: TReadOneResult,
+    id: string
+  ): Promise<void> => {
+    liveReadsRef.current.getOne = { id, data };
+    let processedResult = data;
+    if (options.read?.afterServiceOne) {
+      processedResult = await options.read.afterServiceOne(processedResult, id);
+    }
+    setReadOneState((previous) => ({
+      ...previous,
+      data: processedResult,
+      loading: false,
+      error: null,
+      success: true,
+      cancelled: false,
+      rolledBack: false,
+      queued: false,
+    }));
+  };
+
+  /**
+   * Publie une nouvelle valeur de getMany reçue du cache partagé ou d'un événement
+   */
+  const publishReadMany = async (
+    data: TReadManyResult,
+    params: TReadParams
+  ): Promise<void> => {
+    liveReadsRef.current.getMany = { params, data };
+    let processedResult = data;
+    if (options.read?.afterServiceMany) {
+      processedResult = await options.read.afterServiceMany(
+        processedResult,
+        params
+      );
+    }
+    setReadManyState((previous) => ({
+      ...previous,
+      data: processedResult,
+      loading: false,
+      error: null,
+      success: true,
+      cancelled: false,
+      rolledBack: false,
+      queued: false,
+    }));
+  };
+
+  /**
+   * Applique un événement temps réel aux lectures de l'instance, sans cache partagé
+   * (avec le cache, l'abonnement partagé met à jour les entrées publiées aux instances)
+   * Le dernier résultat lu est mis à jour et republié ; une entité lue par getOne puis
+   * supprimée est retirée de l'état.
+   */
+  const applyReadEvent = (event: EntityEvent<TReadOneResult>): void => {
+    const one = liveReadsRef.current.getOne;
+    if (one) {
+      const next = applyEntityEvent("getOne", one.data, event);
+      if (next === null) {
+        delete liveReadsRef.current.getOne;
+        setReadOneState((previous) => ({ ...previous, data: null }));
+      } else if (next !== one.data) {
+        publishReadOne(next as TReadOneResult, one.id).catch(() => undefined);
+      }
+    }
+
+    const many = liveReadsRef.current.getMany;
+    if (many) {
+      publishReadMany(
+        applyEntityEvent("getMany", many.data, event) as TReadManyResult,
+        many.params
+      ).catch(() => undefined);
+    }
+  };
+  readEventRef.current = applyReadEvent;
+
+  /**
+   * Relit en arrière-plan les dernières lectures de l'instance (polling, focus, reconnexion)
+   * Suspendu tant que la page est masquée ; une lecture encore en cours n'est pas doublée.
+   * Avec le cache partagé, l'entrée lue est invalidée et revalidée pour toutes les instances.
+   */
+  const refetchReads = (): void => {
+    if (isDocumentHidden()) {
+      return;
+    }
+
+    const cache = options.read?.cache ? resolveReadCache() : undefined;
+    const { getOne, getMany } = lastReadsRef.current;
+    const reads: Array<[ReadOperation, () => Promise<unknown>]> = [];
+    if (getOne) {
+      reads.push([
+        "getOne",
+        () => executeReadOne(getOne.id, getOne.params, true),
+      ]);
+    }
+    if (getMany) {
+      reads.push(["getMany", () => executeReadMany(getMany.params, true)]);
+    }
+
+    reads.forEach(([operation, refetch]) => {
+      if (controllersRef.current[operation]) {
+        return;
+      }
+
+      const subscription = subscriptionsRef.current[operation];
+      if (cache && subscription) {
+        cache.queryCache.invalidateQueries(
+          (key) => hashQueryKey(key) === subscription.hash
+        );
+      } else {
+        refetch().catch(() => undefined);
+      }
+    });
+  };
+  refetchRef.current = refetchReads;
+
   /**
    * Implémentation des opérations de lecture spécialisées
    * Maintient les invariants sémantiques à travers les transformations
+   * Une relecture en arrière-plan ne repasse pas par l'état de chargement
    */
   const executeReadOne = async (
     id: string,
-    params?: Omit<TReadParams, "pagination">
+    params?: Omit<TReadParams, "pagination">,
+    background = false
   ): Promise<TReadOneResult> => {
+    const errorContext = {
+      entityName: options.entityName,
+      operation: "getOne" as const,
+    };
+
     if (
       !options.read ||
       !options.read.service ||
       !options.read.service.getOne
     ) {
-      throw new Error("Read operation not configured");
+      throw new NotImplementedError(
+        "Read operation not configured",
+        errorContext
+      );
     }
 
+    // Une nouvelle lecture remplace la précédente, dont la réponse serait obsolète
+    const controller = startExecution("getOne", true);
+    lastReadsRef.current.getOne = { id, params };
+
+    // Suivi des tentatives remontées par le service
+    let attempt = 0;
+    const callOptions: CrudCallOptions = {
+      retry: options.read.retry,
+      timeoutMs: options.read.timeoutMs,
+      signal: controller.signal,
+      onAttempt: (current) => {
+        attempt = current;
+        if (!controller.signal.aborted) {
+          setReadOneState((previous) => ({ ...previous, attempt: current }));
+        }
+      },
+    };
+
     // Construction d'un nouvel état atomique - début du chargement
-    setReadOneState({
-      loading: true,
-      success: false,
-      error: null,
-      data: null,
-    });
+    // (une relecture en arrière-plan conserve silencieusement le résultat affiché)
+    if (!background) {
+      setReadOneState({
+        loading: true,
+        success: false,
+        attempt: 0,
+        cancelled: false,
+        rolledBack: false,
+        queued: false,
+        error: null,
+        data: null,
+      });
+    }
 
     try {
       // Traitement des paramètres
@@ -394,16 +1531,22 @@ export function useCRUD<
       // Validation et transformation des paramètres
       if (processedParams && options.read.validationSchema) {
         try {
-          processedParams =
-            options.read.validationSchema.parse(processedParams);
+          processedParams = await parseSchema(
+            options.read.validationSchema,
+            processedParams
+          );
         } catch (validationError) {
           // Gestion typée des erreurs de validation
-          const typedError = validationError as ValidationError;
+          const typedError = toCrudError(validationError, errorContext);
           setReadOneState({
             data: null,
             loading: false,
             error: typedError,
             success: false,
+            attempt: 0,
+            cancelled: false,
+            rolledBack: false,
+            queued: false,
           });
           throw typedError;
         }
@@ -420,8 +1563,32 @@ export function useCRUD<
         );
       }
 
-      // Appel au service
-      const result = await options.read.service.getOne(id, processedParams);
+      // Appel au service, à travers le cache partagé s'il est activé
+      const readService = options.read.service;
+      const fetchOne = (fetchOptions: CrudCallOptions) =>
+        readService.getOne!(id, processedParams, fetchOptions);
+      const cache = resolveReadCache();
+      let result: TReadOneResult;
+      let revalidate: (() => void) | undefined;
+
+      if (cache) {
+        // La requête partagée n'est pas liée au signal de cette exécution
+        ({ data: result, revalidate } = await readThroughCache(
+          "getOne",
+          cache,
+          createQueryKey(cache.entityName, "getOne", processedParams, id),
+          () => fetchOne({ ...callOptions, signal: undefined }),
+          controller.signal,
+          (data) => publishReadOne(data, id),
+          // Entité évincée du cache (suppression) : retirée de l'état
+          () => {
+            delete liveReadsRef.current.getOne;
+            setReadOneState((previous) => ({ ...previous, data: null }));
+          }
+        ));
+      } else {
+        result = await fetchOne(callOptions);
+      }
 
       // Hook after service
       let processedResult = result;
@@ -432,14 +1599,27 @@ export function useCRUD<
         );
       }
 
+      // Une lecture remplacée ou annulée ne publie jamais son résultat
+      if (controller.signal.aborted) {
+        throw new CancelledError("Operation cancelled", errorContext);
+      }
+
       // Construction d'un nouvel état atomique - succès
+      liveReadsRef.current.getOne = { id, data: result };
       setReadOneState({
         data: processedResult,
         loading: false,
         error: null,
         success: true,
+        attempt,
+        cancelled: false,
+        rolledBack: false,
+        queued: false,
       });
 
+      // Donnée servie depuis le cache mais périmée : revalidation en arrière-plan
+      revalidate?.();
+
       // Hook on success
       if (options.read.onSuccessOne) {
         await options.read.onSuccessOne(processedResult, id);
@@ -447,16 +1627,34 @@ export function useCRUD<
 
       return processedResult;
     } catch (error) {
+      // Lecture remplacée ou annulée : l'état appartient à l'exécution suivante
+      if (controller.signal.aborted) {
+        throw error instanceof CancelledError
+          ? error
+          : new CancelledError("Operation cancelled", {
+              ...errorContext,
+              cause: error,
+            });
+      }
+
       // Gestion des erreurs
-      const typedError = error as Error;
+      const typedError = toCrudError(error, errorContext);
 
       // Construction d'un nouvel état atomique - erreur
-      setReadOneState({
-        data: null,
+      // (une relecture en arrière-plan en échec conserve le résultat affiché)
+      if (!background) {
+        delete liveReadsRef.current.getOne;
+      }
+      setReadOneState((previous) => ({
+        data: background ? previous.data : null,
         loading: false,
         error: typedError,
         success: false,
-      });
+        attempt,
+        cancelled: false,
+        rolledBack: false,
+        queued: false,
+      }));
 
       // Hook on error
       if (options.read.onErrorOne) {
@@ -464,31 +1662,68 @@ export function useCRUD<
       }
 
       throw typedError;
+    } finally {
+      finishExecution("getOne", controller);
     }
   };
 
   /**
    * Implémentation de l'opération getMany avec support de la topologie des requêtes
    * (pagination, filtrage, tri)
+   * Une relecture en arrière-plan ne repasse pas par l'état de chargement
    */
   const executeReadMany = async (
-    params?: TReadParams
+    params?: TReadParams,
+    background = false
   ): Promise<TReadManyResult> => {
+    const errorContext = {
+      entityName: options.entityName,
+      operation: "getMany" as const,
+    };
+
     if (
       !options.read ||
       !options.read.service ||
       !options.read.service.getMany
     ) {
-      throw new Error("Read many operation not configured");
+      throw new NotImplementedError(
+        "Read many operation not configured",
+        errorContext
+      );
     }
 
+    // Une nouvelle lecture remplace la précédente, dont la réponse serait obsolète
+    const controller = startExecution("getMany", true);
+    lastReadsRef.current.getMany = { params };
+
+    // Suivi des tentatives remontées par le service
+    let attempt = 0;
+    const callOptions: CrudCallOptions = {
+      retry: options.read.retry,
+      timeoutMs: options.read.timeoutMs,
+      signal: controller.signal,
+      onAttempt: (current) => {
+        attempt = current;
+        if (!controller.signal.aborted) {
+          setReadManyState((previous) => ({ ...previous, attempt: current }));
+        }
+      },
+    };
+
     // Construction d'un nouvel état atomique - début du chargement
-    setReadManyState({
-      loading: true,
-      success: false,
-      error: null,
-      data: null,
-    });
+    // (une relecture en arrière-plan conserve silencieusement le résultat affiché)
+    if (!background) {
+      setReadManyState({
+        loading: true,
+        success: false,
+        attempt: 0,
+        cancelled: false,
+        rolledBack: false,
+        queued: false,
+        error: null,
+        data: null,
+      });
+    }
 
     try {
       // Traitement des paramètres
@@ -497,17 +1732,22 @@ export function useCRUD<
       // Validation et transformation des paramètres
       if (processedParams && options.read.validationSchema) {
         try {
-          processedParams = options.read.validationSchema.parse(
+          processedParams = await parseSchema(
+            options.read.validationSchema,
             processedParams
-          ) as TReadParams;
+          );
         } catch (validationError) {
           // Gestion typée des erreurs de validation
-          const typedError = validationError as ValidationError;
+          const typedError = toCrudError(validationError, errorContext);
           setReadManyState({
             data: null,
             loading: false,
             error: typedError,
             success: false,
+            attempt: 0,
+            cancelled: false,
+            rolledBack: false,
+            queued: false,
           });
           throw typedError;
         }
@@ -526,8 +1766,29 @@ export function useCRUD<
         )) as TReadParams;
       }
 
-      // Appel au service avec support des stratégies de pagination isomorphes
-      const result = await options.read.service.getMany(processedParams);
+      // Appel au service avec support des stratégies de pagination isomorphes,
+      // à travers le cache partagé s'il est activé
+      const readService = options.read.service;
+      const cacheParams = processedParams;
+      const fetchMany = (fetchOptions: CrudCallOptions) =>
+        readService.getMany!(cacheParams, fetchOptions);
+      const cache = resolveReadCache();
+      let result: TReadManyResult;
+      let revalidate: (() => void) | undefined;
+
+      if (cache) {
+        // La requête partagée n'est pas liée au signal de cette exécution
+        ({ data: result, revalidate } = await readThroughCache(
+          "getMany",
+          cache,
+          createQueryKey(cache.entityName, "getMany", cacheParams),
+          () => fetchMany({ ...callOptions, signal: undefined }),
+          controller.signal,
+          (data) => publishReadMany(data, cacheParams as TReadParams)
+        ));
+      } else {
+        result = await fetchMany(callOptions);
+      }
 
       // Hook after service
       let processedResult = result;
@@ -538,14 +1799,30 @@ export function useCRUD<
         );
       }
 
+      // Une lecture remplacée ou annulée ne publie jamais son résultat
+      if (controller.signal.aborted) {
+        throw new CancelledError("Operation cancelled", errorContext);
+      }
+
       // Construction d'un nouvel état atomique - succès
+      liveReadsRef.current.getMany = {
+        params: processedParams as TReadParams,
+        data: result,
+      };
       setReadManyState({
         data: processedResult,
         loading: false,
         error: null,
         success: true,
+        attempt,
+        cancelled: false,
+        rolledBack: false,
+        queued: false,
       });
 
+      // Donnée servie depuis le cache mais périmée : revalidation en arrière-plan
+      revalidate?.();
+
       // Hook on success
       if (options.read.onSuccessMany && processedParams) {
         await options.read.onSuccessMany(processedResult, processedParams);
@@ -553,16 +1830,34 @@ export function useCRUD<
 
       return processedResult;
     } catch (error) {
+      // Lecture remplacée ou annulée : l'état appartient à l'exécution suivante
+      if (controller.signal.aborted) {
+        throw error instanceof CancelledError
+          ? error
+          : new CancelledError("Operation cancelled", {
+              ...errorContext,
+              cause: error,
+            });
+      }
+
       // Gestion des erreurs
-      const typedError = error as Error;
+      const typedError = toCrudError(error, errorContext);
 
       // Construction d'un nouvel état atomique - erreur
-      setReadManyState({
-        data: null,
+      // (une relecture en arrière-plan en échec conserve le résultat affiché)
+      if (!background) {
+        delete liveReadsRef.current.getMany;
+      }
+      setReadManyState((previous) => ({
+        data: background ? previous.data : null,
         loading: false,
         error: typedError,
         success: false,
-      });
+        attempt,
+        cancelled: false,
+        rolledBack: false,
+        queued: false,
+      }));
 
       // Hook on error
       if (options.read.onErrorMany && params) {
@@ -570,6 +1865,8 @@ export function useCRUD<
       }
 
       throw typedError;
+    } finally {
+      finishExecution("getMany", controller);
     }
   };
 
@@ -578,61 +1875,126 @@ export function useCRUD<
     create: {
       state: createState,
       execute: (data: TCreateIn) =>
-        executeOperation(data, options.create, setCreateState),
+        executeOperation("create", data, options.create, setCreateState),
       reset: () =>
         setCreateState({
           loading: false,
           success: false,
+          attempt: 0,
+          cancelled: false,
+          rolledBack: false,
+          queued: false,
           error: null,
           data: null,
         }),
+      cancel: () => cancelExecution("create", setCreateState),
     },
     update: {
       state: updateState,
       execute: (data: TUpdateIn) =>
-        executeOperation(data, options.update, setUpdateState),
+        executeOperation("update", data, options.update, setUpdateState),
       reset: () =>
         setUpdateState({
           loading: false,
           success: false,
+          attempt: 0,
+          cancelled: false,
+          rolledBack: false,
+          queued: false,
           error: null,
           data: null,
         }),
+      cancel: () => cancelExecution("update", setUpdateState),
     },
     delete: {
       state: deleteState,
       execute: (data: TDeleteIn) =>
-        executeOperation(data, options.delete, setDeleteState),
+        executeOperation("delete", data, options.delete, setDeleteState),
       reset: () =>
         setDeleteState({
           loading: false,
           success: false,
+          attempt: 0,
+          cancelled: false,
+          rolledBack: false,
+          queued: false,
           error: null,
           data: null,
         }),
+      cancel: () => cancelExecution("delete", setDeleteState),
+    },
+    createMany: {
+      state: createManyState,
+      execute: (data: TCreateIn[]) =>
+        executeBatch("create", data, options.create, setCreateManyState),
+      reset: () => setCreateManyState(createIdleState()),
+      cancel: () => cancelExecution("createMany", setCreateManyState),
+    },
+    updateMany: {
+      state: updateManyState,
+      execute: (data: TUpdateIn[]) =>
+        executeBatch("update", data, options.update, setUpdateManyState),
+      reset: () => setUpdateManyState(createIdleState()),
+      cancel: () => cancelExecution("updateMany", setUpdateManyState),
+    },
+    deleteMany: {
+      state: deleteManyState,
+      execute: (data: TDeleteIn[]) =>
+        executeBatch("delete", data, options.delete, setDeleteManyState),
+      reset: () => setDeleteManyState(createIdleState()),
+      cancel: () => cancelExecution("deleteMany", setDeleteManyState),
+    },
+    offline: {
+      state: offlineState,
+      replay: () => options.offline?.replay() ?? Promise.resolve(),
     },
     read: {
       one: {
         state: readOneState,
-        execute: executeReadOne,
-        reset: () =>
+        execute: (id: string, params?: any) =>
+          trackRead("getOne", () => executeReadOne(id, params)),
+        reset: () => {
+          delete liveReadsRef.current.getOne;
+          delete lastReadsRef.current.getOne;
           setReadOneState({
             loading: false,
             success: false,
+            attempt: 0,
+            cancelled: false,
+            rolledBack: false,
+            queued: false,
             error: null,
             data: null,
-          }),
+          });
+        },
+        cancel: () => {
+          // Une lecture annulée n'est pas remplacée par la suivante
+          delete latestReadsRef.current.getOne;
+          cancelExecution("getOne", setReadOneState);
+        },
       },
       many: {
         state: readManyState,
-        execute: executeReadMany,
-        reset: () =>
+        execute: (params?: TReadParams) =>
+          trackRead("getMany", () => executeReadMany(params)),
+        reset: () => {
+          delete liveReadsRef.current.getMany;
+          delete lastReadsRef.current.getMany;
           setReadManyState({
             loading: false,
             success: false,
+            attempt: 0,
+            cancelled: false,
+            rolledBack: false,
+            queued: false,
             error: null,
             data: null,
-          }),
+          });
+        },
+        cancel: () => {
+          delete latestReadsRef.current.getMany;
+          cancelExecution("getMany", setReadManyState);
+        },
       },
     },
   };
@@ -0,0 +1,384 @@
+/**
+ * État de formulaire adossé à createValidator et useCRUD
+ *
+ * Le hook porte les valeurs, les champs visités et modifiés et les erreurs d'un formulaire,
+ * applique la validation en temps réel, par champ et à la soumission, puis appelle
+ * `create.execute` ou `update.execute`. En mise à jour, seuls les champs modifiés
+ * (et les champs d'identité) sont envoyés. Les erreurs de validation renvoyées par le
+ * serveur (`OperationState.error`) sont reportées sur les champs concernés.
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { CrudError } from "../../lib/types/errors";
+import {
+  createValidator,
+  getFormErrors,
+  toPathSegments,
+  ValidationError,
+  ValidatorSchemas,
+} from "../../lib/types/validation";
+import { OperationState } from "./useCRUD";
+
+/**
+ * Mutation exposée par useCRUD (`create` ou `update`)
+ */
+interface FormMutation<TData, TResult> {
+  state: OperationState<TResult>;
+  execute: (data: TData) => Promise<TResult>;
+}
+
+/**
+ * Moment de la validation d'un champ
+ * - "change" : à chaque modification
+ * - "blur" : à la sortie du champ
+ * - "submit" : à la soumission uniquement
+ * Un champ en erreur est revalidé à chaque modification, quel que soit le mode
+ */
+export type FormValidationMode = "change" | "blur" | "submit";
+
+/**
+ * Configuration du formulaire
+ */
+export interface UseCrudFormOptions<
+  T extends Record<string, unknown>,
+  TResult
+> {
+  // Valeurs initiales, référence des champs modifiés
+  initialValues: T;
+  // Schémas de validation (voir createValidator)
+  validation?: ValidatorSchemas<T>;
+  // Opération de soumission (par défaut : "update" si les valeurs initiales ont un `id`)
+  mode?: "create" | "update";
+  // Moment de la validation des champs (par défaut : "blur")
+  validateOn?: FormValidationMode;
+  // Champs toujours envoyés en mise à jour (par défaut : "id" et "version")
+  identityFields?: (keyof T)[];
+  // Appelé après une soumission réussie
+  onSuccess?: (result: TResult, values: T) => Promise<void> | void;
+}
+
+/**
+ * Résultat du hook de formulaire
+ */
+export interface CrudFormResult<T extends Record<string, unknown>, TResult> {
+  values: T;
+  // Premier message d'erreur par chemin pointé, erreurs serveur comprises
+  errors: Record<string, string>;
+  // Erreurs portant sur l'ensemble du formulaire
+  formErrors: string[];
+  touched: Partial<Record<keyof T, boolean>>;
+  dirty: Partial<Record<keyof T, boolean>>;
+  isDirty: boolean;
+  isValid: boolean;
+  isValidating: boolean;
+  isSubmitting: boolean;
+  // Erreur de la dernière soumission (validation, réseau, conflit...),
+  // à détailler par champ avec getErrors / getFormErrors
+  submitError: CrudError | null;
+  setValue: <K extends keyof T>(field: K, value: T[K]) => void;
+  setValues: (values: Partial<T>) => void;
+  // Marque un champ comme visité (sortie du champ)
+  blur: (field: keyof T) => void;
+  validateField: (field: keyof T) => Promise<string>;
+  // Valide et soumet le formulaire ; null si la validation échoue ou si rien n'est à envoyer
+  submit: () => Promise<TResult | null>;
+  reset: (values?: T) => void;
+}
+
+/**
+ * Égalité de valeurs de formulaire (structurelle pour les objets et tableaux)
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Retire d'un dictionnaire d'erreurs celles d'un champ et de ses champs imbriqués
+ */
+function omitFieldErrors(
+  errors: Record<string, string>,
+  field: string
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(errors).filter(
+      ([path]) => path !== field && !path.startsWith(`${field}.`)
+    )
+  );
+}
+
+/**
+ * Erreur de validation issue de la soumission (code "validation_failed")
+ * ou de l'opération (CrudValidationError)
+ */
+function isFieldValidationError(
+  error: unknown
+): error is Error & ValidationError {
+  return (
+    error instanceof Error &&
+    ((error as CrudError).kind === "validation" ||
+      (error as ValidationError).code === "validation_failed")
+  );
+}
+
+/**
+ * Hook useCrudForm - Formulaire de création ou de mise à jour d'une entité
+ *
+ * @param crud Résultat de useCRUD (ou de createTypedCrud)
+ * @param options Valeurs initiales, validation et mode de soumission
+ * @returns État du formulaire et fonctions de modification
+ *
+ * @example
+ * const crud = useProjects({ update: { service: projectService.update } });
+ * const form = useCrudForm(crud, {
+ *   initialValues: project,
+ *   validation: { submit: projectSchema, fields: projectFieldSchemas },
+ * });
+ * <input value={form.values.name} onChange={(e) => form.setValue("name", e.target.value)}
+ *   onBlur={() => form.blur("name")} />
+ */
+export function useCrudForm<
+  T extends Record<string, unknown>,
+  TResult = unknown
+>(
+  crud: {
+    create?: FormMutation<Partial<T>, TResult>;
+    update?: FormMutation<Partial<T>, TResult>;
+  },
+  options: UseCrudFormOptions<T, TResult>
+): CrudFormResult<T, TResult> {
+  const mode =
+    options.mode ??
+    (options.initialValues.id !== undefined ? "update" : "create");
+  const validateOn = options.validateOn ?? "blur";
+  const identityFields = options.identityFields ?? ["id", "version"];
+  const mutation = crud[mode];
+
+  const [values, setValuesState] = useState<T>(options.initialValues);
+  const [touched, setTouched] = useState<Partial<Record<keyof T, boolean>>>({});
+  const [clientErrors, setClientErrors] = useState<Record<string, string>>({});
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [validating, setValidating] = useState<Partial<Record<keyof T, true>>>(
+    {}
+  );
+
+  // Référence des champs modifiés et valeurs courantes, lues hors rendu
+  const baselineRef = useRef(options.initialValues);
+  const valuesRef = useRef(values);
+  valuesRef.current = values;
+  const errorsRef = useRef(clientErrors);
+  errorsRef.current = clientErrors;
+  // Dernière validation demandée par champ, pour ignorer les résultats dépassés
+  const validationSeqRef = useRef<Partial<Record<keyof T, number>>>({});
+
+  // Validateur créé une fois pour toute la durée de vie du formulaire
+  const [validator] = useState(
+    () => options.validation && createValidator(options.validation)
+  );
+
+  // Report des erreurs de validation renvoyées par l'opération sur les champs
+  const operationError = mutation?.state.error ?? null;
+  useEffect(() => {
+    if (!isFieldValidationError(operationError)) {
+      return;
+    }
+    setServerErrors(operationError.errors ?? {});
+    setFormErrors(getFormErrors(operationError));
+  }, [operationError]);
+
+  /**
+   * Champs dont la valeur diffère de la référence
+   */
+  const getDirtyFields = (current: T): Partial<Record<keyof T, boolean>> =>
+    Object.fromEntries(
+      (Object.keys(current) as (keyof T)[])
+        .filter(
+          (field) => !isSameValue(current[field], baselineRef.current[field])
+        )
+        .map((field) => [field, true])
+    ) as Partial<Record<keyof T, boolean>>;
+
+  const dirty = getDirtyFields(values);
+  const errors = { ...serverErrors, ...clientErrors };
+
+  /**
+   * Valide un champ (validation synchrone puis asynchrone) et reporte son erreur
+   */
+  const validateField = async (field: keyof T): Promise<string> => {
+    if (!validator) {
+      return "";
+    }
+
+    const sequence = (validationSeqRef.current[field] ?? 0) + 1;
+    validationSeqRef.current[field] = sequence;
+    setValidating((current) => ({ ...current, [field]: true }));
+
+    const message = await validator.validateFieldAsync(
+      field,
+      valuesRef.current[field],
+      valuesRef.current
+    );
+
+    if (validationSeqRef.current[field] === sequence) {
+      setValidating((current) => {
+        const { [field]: _done, ...rest } = current;
+        return rest as Partial<Record<keyof T, true>>;
+      });
+      setClientErrors((current) => {
+        const rest = omitFieldErrors(current, field as string);
+        return message ? { ...rest, [field]: message } : rest;
+      });
+    }
+    return message;
+  };
+
+  /**
+   * Applique des modifications de valeurs et les validations qui en découlent
+   */
+  const applyValues = (changes: Partial<T>): void => {
+    const next = { ...valuesRef.current, ...changes };
+    valuesRef.current = next;
+    setValuesState(next);
+
+    const fields = Object.keys(changes) as (keyof T)[];
+    // Une erreur serveur ne vaut plus pour une valeur modifiée
+    setServerErrors((current) =>
+      fields.reduce(
+        (remaining, field) => omitFieldErrors(remaining, field as string),
+        current
+      )
+    );
+
+    fields
+      .filter(
+        (field) =>
+          validateOn === "change" ||
+          Object.keys(errorsRef.current).some(
+            (path) => toPathSegments(path)[0] === field
+          )
+      )
+      .forEach((field) => {
+        validateField(field).catch(() => undefined);
+      });
+  };
+
+  /**
+   * Données envoyées : tout le formulaire en création, les champs modifiés
+   * et les champs d'identité en mise à jour
+   */
+  const toSubmittedData = (
+    parsed: T,
+    changed: Partial<Record<keyof T, boolean>>
+  ): Partial<T> => {
+    if (mode === "create") {
+      return parsed;
+    }
+    return Object.fromEntries(
+      (Object.keys(parsed) as (keyof T)[])
+        .filter(
+          (field) =>
+            changed[field] ||
+            (identityFields.includes(field) && parsed[field] !== undefined)
+        )
+        .map((field) => [field, parsed[field]])
+    ) as Partial<T>;
+  };
+
+  const submit = async (): Promise<TResult | null> => {
+    if (!mutation) {
+      throw new Error(`useCrudForm requires a ${mode} operation`);
+    }
+
+    const current = valuesRef.current;
+    setTouched(
+      Object.fromEntries(
+        Object.keys(current).map((field) => [field, true])
+      ) as Partial<Record<keyof T, boolean>>
+    );
+    setFormErrors([]);
+
+    let parsed = current;
+    if (validator && options.validation?.submit) {
+      try {
+        parsed = await validator.validateSubmitAsync(current);
+      } catch (error) {
+        if (!isFieldValidationError(error)) {
+          throw error;
+        }
+        setClientErrors(error.errors ?? {});
+        setFormErrors(getFormErrors(error));
+        return null;
+      }
+    }
+    setClientErrors({});
+
+    // Champs modifiés lus au moment de la soumission, et non au dernier rendu
+    const changed = getDirtyFields(current);
+    const data = toSubmittedData(parsed, changed);
+    if (
+      mode === "update" &&
+      !(Object.keys(data) as (keyof T)[]).some((field) => changed[field])
+    ) {
+      return null;
+    }
+
+    let result: TResult;
+    try {
+      result = await mutation.execute(data);
+    } catch {
+      // L'erreur est exposée par `submitError` et reportée sur les champs
+      return null;
+    }
+
+    // Les valeurs soumises deviennent la référence des champs modifiés
+    baselineRef.current = current;
+    setTouched({});
+    setServerErrors({});
+    // Une erreur de `onSuccess` est propagée à l'appelant de `submit`
+    if (options.onSuccess) {
+      await options.onSuccess(result, current);
+    }
+    return result;
+  };
+
+  return {
+    values,
+    errors,
+    formErrors,
+    touched,
+    dirty,
+    isDirty: Object.keys(dirty).length > 0,
+    isValid: Object.keys(errors).length === 0 && formErrors.length === 0,
+    isValidating: Object.keys(validating).length > 0,
+    isSubmitting: mutation?.state.loading ?? false,
+    submitError: operationError,
+    setValue: (field, value) =>
+      applyValues({ [field]: value } as unknown as Partial<T>),
+    setValues: applyValues,
+    blur: (field) => {
+      setTouched((current) => ({ ...current, [field]: true }));
+      if (validateOn !== "submit") {
+        validateField(field).catch(() => undefined);
+      }
+    },
+    validateField,
+    submit,
+    reset: (nextValues = baselineRef.current) => {
+      baselineRef.current = nextValues;
+      valuesRef.current = nextValues;
+      setValuesState(nextValues);
+      setTouched({});
+      setClientErrors({});
+      setServerErrors({});
+      setFormErrors([]);
+    },
+  };
+}
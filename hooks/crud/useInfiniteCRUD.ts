@@ -0,0 +1,424 @@
+/**
+ * Pagination cumulative (défilement infini) sur l'opération getMany
+ *
+ * Contrairement à `read.many`, qui remplace son résultat à chaque appel, ce hook
+ * accumule les pages chargées dans les deux sens et déduit la pagination des pages
+ * voisines, quelle que soit la stratégie utilisée (page, offset ou curseur).
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { useEffect, useRef, useState } from "react";
+import {
+  PaginationOptions,
+  ReadManyResult,
+  ReadOptions,
+} from "../../lib/services/crudService";
+import {
+  getNextPagination,
+  getPreviousPagination,
+} from "../../lib/services/readOptions";
+import { CrudCallOptions, RetryPolicy } from "../../lib/services/retry";
+import { CancelledError, CrudError, toCrudError } from "../../lib/types/errors";
+import { OperationState } from "./useCRUD";
+
+/**
+ * Déduit la pagination d'une page voisine à partir d'une page chargée
+ * Retourner undefined indique qu'il n'existe pas de page dans cette direction
+ */
+type PageParamResolver<TResult> = (
+  page: TResult,
+  pagination: PaginationOptions,
+  pages: TResult[]
+) => PaginationOptions | undefined;
+
+/**
+ * Sens de chargement d'une page
+ */
+type FetchDirection = "initial" | "next" | "previous";
+
+/**
+ * Configuration du hook de pagination cumulative
+ */
+export interface UseInfiniteCRUDOptions<
+  TItem,
+  TParams extends ReadOptions,
+  TResult extends ReadManyResult<TItem>
+> {
+  // Nom de l'entité (contexte des erreurs)
+  entityName?: string;
+  service: (params: TParams, callOptions?: CrudCallOptions) => Promise<TResult>;
+  // Surcharges de résilience transmises au service
+  retry?: RetryPolicy;
+  timeoutMs?: number;
+  // Pagination des pages voisines (par défaut : déduite de `meta` et de la requête)
+  getNextPageParam?: PageParamResolver<TResult>;
+  getPreviousPageParam?: PageParamResolver<TResult>;
+  // Hooks de cycle de vie
+  onSuccess?: (page: TResult, params: TParams) => Promise<void> | void;
+  onError?: (error: CrudError, params: TParams) => Promise<void> | void;
+}
+
+/**
+ * Résultat du hook de pagination cumulative
+ * `state.data` contient les pages chargées, dans l'ordre
+ * Un chargement remplacé par un nouveau chargement se résout avec le résultat de celui-ci,
+ * un chargement interrompu par le démontage avec les pages déjà chargées ; un chargement
+ * annulé (cancel, reset) est rejeté avec CancelledError
+ */
+export interface InfiniteCrudResult<
+  TItem,
+  TParams extends ReadOptions,
+  TResult extends ReadManyResult<TItem>
+> {
+  state: OperationState<TResult[]>;
+  pages: TResult[];
+  // Éléments de toutes les pages, dans l'ordre
+  items: TItem[];
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  // Curseur de la page suivante annoncé par la dernière page
+  nextCursor: string | null | undefined;
+  isFetchingNextPage: boolean;
+  isFetchingPreviousPage: boolean;
+  // Charge la première page et remplace les pages accumulées
+  execute: (params?: TParams) => Promise<TResult[]>;
+  fetchNextPage: () => Promise<TResult[]>;
+  fetchPreviousPage: () => Promise<TResult[]>;
+  reset: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Pages accumulées et pagination ayant produit chacune d'elles
+ */
+interface PagesSnapshot<TParams, TResult> {
+  params?: TParams;
+  pages: TResult[];
+  paginations: PaginationOptions[];
+}
+
+/**
+ * Hook useInfiniteCRUD - Accumulation de pages successives de getMany
+ *
+ * @template TItem - Type des éléments d'une page
+ * @template TParams - Type des paramètres de lecture
+ * @template TResult - Type du résultat d'une page
+ */
+export function useInfiniteCRUD<
+  TItem = unknown,
+  TParams extends ReadOptions = ReadOptions,
+  TResult extends ReadManyResult<TItem> = ReadManyResult<TItem>
+>(
+  options: UseInfiniteCRUDOptions<TItem, TParams, TResult>
+): InfiniteCrudResult<TItem, TParams, TResult> {
+  const [state, setState] = useState<OperationState<TResult[]>>({
+    loading: false,
+    success: false,
+    attempt: 0,
+    cancelled: false,
+    rolledBack: false,
+    queued: false,
+    error: null,
+    data: null,
+  });
+
+  const [snapshot, setSnapshot] = useState<PagesSnapshot<TParams, TResult>>({
+    pages: [],
+    paginations: [],
+  });
+  const [fetchingDirection, setFetchingDirection] =
+    useState<FetchDirection | null>(null);
+
+  // Pages courantes, lues par les exécutions asynchrones sans dépendre du rendu
+  const snapshotRef = useRef(snapshot);
+  const controllerRef = useRef<AbortController>();
+
+  // Dernier chargement demandé, et chargement qui remplace chacun d'eux
+  const latestFetchRef = useRef<Promise<TResult[]>>();
+  const successorsRef = useRef(
+    new WeakMap<Promise<TResult[]>, Promise<TResult[]>>()
+  );
+  const unmountedRef = useRef(false);
+
+  // Annulation du chargement en cours au démontage du composant
+  useEffect(() => {
+    unmountedRef.current = false;
+    return () => {
+      unmountedRef.current = true;
+      controllerRef.current?.abort();
+    };
+  }, []);
+
+  const resolveNext: PageParamResolver<TResult> =
+    options.getNextPageParam ?? getNextPagination;
+  const resolvePrevious: PageParamResolver<TResult> =
+    options.getPreviousPageParam ?? getPreviousPagination;
+
+  /**
+   * Pagination de la page voisine dans une direction, undefined si elle n'existe pas
+   */
+  const getAdjacentPagination = (
+    current: PagesSnapshot<TParams, TResult>,
+    direction: "next" | "previous"
+  ): PaginationOptions | undefined => {
+    const { pages, paginations } = current;
+    if (pages.length === 0) {
+      return undefined;
+    }
+
+    return direction === "next"
+      ? resolveNext(
+          pages[pages.length - 1],
+          paginations[pages.length - 1],
+          pages
+        )
+      : resolvePrevious(pages[0], paginations[0], pages);
+  };
+
+  /**
+   * Charge une page et l'intègre aux pages accumulées
+   * Un chargement initial remplace et annule tout chargement en cours
+   */
+  const runFetch = async (
+    direction: FetchDirection,
+    baseParams: TParams | undefined,
+    pagination: PaginationOptions
+  ): Promise<TResult[]> => {
+    const errorContext = {
+      entityName: options.entityName,
+      operation: "getMany" as const,
+    };
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const params = { ...(baseParams ?? {}), pagination } as TParams;
+
+    // Suivi des tentatives remontées par le service
+    let attempt = 0;
+    const callOptions: CrudCallOptions = {
+      retry: options.retry,
+      timeoutMs: options.timeoutMs,
+      signal: controller.signal,
+      onAttempt: (current) => {
+        attempt = current;
+        if (!controller.signal.aborted) {
+          setState((previous) => ({ ...previous, attempt: current }));
+        }
+      },
+    };
+
+    // Les pages déjà chargées restent visibles pendant le chargement
+    setFetchingDirection(direction);
+    setState((previous) => ({
+      ...previous,
+      data: direction === "initial" ? null : previous.data,
+      loading: true,
+      success: direction === "initial" ? false : previous.success,
+      error: null,
+      attempt: 0,
+      cancelled: false,
+    }));
+
+    try {
+      const page = await options.service(params, callOptions);
+
+      // Un chargement remplacé ou annulé ne publie jamais son résultat
+      if (controller.signal.aborted) {
+        throw new CancelledError("Operation cancelled", errorContext);
+      }
+
+      const current = snapshotRef.current;
+      const next: PagesSnapshot<TParams, TResult> =
+        direction === "initial"
+          ? { params: baseParams, pages: [page], paginations: [pagination] }
+          : direction === "next"
+          ? {
+              ...current,
+              pages: [...current.pages, page],
+              paginations: [...current.paginations, pagination],
+            }
+          : {
+              ...current,
+              pages: [page, ...current.pages],
+              paginations: [pagination, ...current.paginations],
+            };
+
+      snapshotRef.current = next;
+      setSnapshot(next);
+      setState({
+        data: next.pages,
+        loading: false,
+        error: null,
+        success: true,
+        attempt,
+        cancelled: false,
+        rolledBack: false,
+        queued: false,
+      });
+
+      if (options.onSuccess) {
+        await options.onSuccess(page, params);
+      }
+
+      return next.pages;
+    } catch (error) {
+      // Chargement remplacé ou annulé : l'état appartient à l'exécution suivante
+      if (controller.signal.aborted) {
+        throw error instanceof CancelledError
+          ? error
+          : new CancelledError("Operation cancelled", {
+              ...errorContext,
+              cause: error,
+            });
+      }
+
+      const typedError = toCrudError(error, errorContext);
+
+      // Les pages déjà chargées sont conservées
+      setState((previous) => ({
+        ...previous,
+        loading: false,
+        error: typedError,
+        success: false,
+        attempt,
+        cancelled: false,
+      }));
+
+      if (options.onError) {
+        await options.onError(typedError, params);
+      }
+
+      throw typedError;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = undefined;
+        setFetchingDirection(null);
+      }
+    }
+  };
+
+  /**
+   * Suit un chargement demandé par l'appelant
+   * Un chargement remplacé se résout avec le résultat du suivant, un chargement interrompu
+   * par le démontage avec les pages chargées, pour qu'un appel non attendu
+   * (ex: `void fetchNextPage()`) ne produise pas de rejet non traité
+   */
+  const fetchPage = (
+    direction: FetchDirection,
+    baseParams: TParams | undefined,
+    pagination: PaginationOptions
+  ): Promise<TResult[]> => {
+    const previous = latestFetchRef.current;
+    const tracked: Promise<TResult[]> = runFetch(
+      direction,
+      baseParams,
+      pagination
+    ).catch((error) => {
+      if (error instanceof CancelledError) {
+        const successor = successorsRef.current.get(tracked);
+        if (successor) {
+          return successor;
+        }
+        if (unmountedRef.current) {
+          return snapshotRef.current.pages;
+        }
+      }
+      throw error;
+    });
+
+    if (previous) {
+      successorsRef.current.set(previous, tracked);
+    }
+    latestFetchRef.current = tracked;
+    return tracked;
+  };
+
+  /**
+   * Charge la page voisine dans une direction
+   * Sans effet si un chargement est déjà en cours ou s'il n'existe pas de page voisine
+   */
+  const fetchAdjacentPage = async (
+    direction: "next" | "previous"
+  ): Promise<TResult[]> => {
+    const current = snapshotRef.current;
+    if (current.pages.length === 0) {
+      return fetchPage("initial", current.params, {});
+    }
+
+    const pagination = getAdjacentPagination(current, direction);
+    if (controllerRef.current || !pagination) {
+      return current.pages;
+    }
+    return fetchPage(direction, current.params, pagination);
+  };
+
+  /**
+   * Remet le hook dans son état initial, en annulant tout chargement en cours
+   */
+  const reset = (): void => {
+    // Un chargement annulé n'est pas remplacé par le suivant
+    latestFetchRef.current = undefined;
+    controllerRef.current?.abort();
+    controllerRef.current = undefined;
+
+    const empty: PagesSnapshot<TParams, TResult> = {
+      pages: [],
+      paginations: [],
+    };
+    snapshotRef.current = empty;
+    setSnapshot(empty);
+    setFetchingDirection(null);
+    setState({
+      loading: false,
+      success: false,
+      attempt: 0,
+      cancelled: false,
+      rolledBack: false,
+      queued: false,
+      error: null,
+      data: null,
+    });
+  };
+
+  /**
+   * Annule explicitement le chargement en cours, les pages chargées sont conservées
+   */
+  const cancel = (): void => {
+    const controller = controllerRef.current;
+    if (!controller) {
+      return;
+    }
+
+    latestFetchRef.current = undefined;
+    controller.abort();
+    controllerRef.current = undefined;
+    setFetchingDirection(null);
+    setState((previous) => ({
+      ...previous,
+      loading: false,
+      cancelled: true,
+    }));
+  };
+
+  const lastPage = snapshot.pages[snapshot.pages.length - 1];
+
+  return {
+    state,
+    pages: snapshot.pages,
+    items: snapshot.pages.flatMap((page) => page.data),
+    hasNextPage: getAdjacentPagination(snapshot, "next") !== undefined,
+    hasPreviousPage: getAdjacentPagination(snapshot, "previous") !== undefined,
+    nextCursor: lastPage?.meta?.nextCursor,
+    isFetchingNextPage: fetchingDirection === "next",
+    isFetchingPreviousPage: fetchingDirection === "previous",
+    execute: (params?: TParams) =>
+      fetchPage("initial", params, params?.pagination ?? {}),
+    fetchNextPage: () => fetchAdjacentPage("next"),
+    fetchPreviousPage: () => fetchAdjacentPage("previous"),
+    reset,
+    cancel,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Synchronisation des paramètres de `read.many` avec l'URL
+ *
+ * Les paramètres de lecture sont lus dans la chaîne de requête, et chaque modification
+ * est écrite dans l'URL puis déclenche la lecture : une liste partagée ou rechargée
+ * retrouve sa pagination, ses filtres, son tri et sa recherche. La navigation
+ * (précédent / suivant) relance la lecture avec les paramètres de l'URL.
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { ReadOptions } from "../../lib/services/crudService";
+import {
+  decodeReadOptions,
+  encodeReadOptions,
+  ReadOptionsCodecOptions,
+  withReadOptions,
+} from "../../lib/services/queryString";
+
+/**
+ * Accès à la chaîne de requête de l'URL, indépendant du routeur
+ */
+export interface UrlLocation {
+  // Chaîne de requête courante, avec ou sans "?"
+  getSearch: () => string;
+  // Remplace la chaîne de requête ; "push" crée une entrée d'historique
+  setSearch: (search: string, mode: "push" | "replace") => void;
+  // Abonnement aux navigations, retourne la fonction de désabonnement
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Configuration de la synchronisation
+ */
+export interface UseUrlReadOptionsOptions<
+  TParams extends ReadOptions<any, any, any>
+> extends ReadOptionsCodecOptions {
+  // Paramètres appliqués en l'absence de valeur dans l'URL, qui n'y sont pas écrits
+  defaults?: Partial<TParams>;
+  // Mode d'écriture dans l'historique (par défaut : "replace")
+  history?: "push" | "replace";
+  // Accès à l'URL (par défaut : window.location et window.history)
+  location?: UrlLocation;
+  // Lecture automatique à chaque changement de paramètres (par défaut : true)
+  enabled?: boolean;
+}
+
+/**
+ * Résultat de la synchronisation
+ */
+export interface UrlReadOptionsResult<
+  TParams extends ReadOptions<any, any, any>
+> {
+  // Paramètres effectifs : valeurs par défaut complétées par l'URL
+  params: TParams;
+  // Remplace les paramètres, directement ou à partir des paramètres courants
+  setParams: (update: TParams | ((current: TParams) => TParams)) => void;
+  // Retire les paramètres de l'URL pour revenir aux valeurs par défaut
+  resetParams: () => void;
+}
+
+/**
+ * Accès par défaut à l'URL du navigateur, inerte hors navigateur
+ */
+const browserLocation: UrlLocation = {
+  getSearch: () =>
+    typeof window === "undefined" ? "" : window.location.search,
+  setSearch: (search, mode) => {
+    if (typeof window === "undefined") {
+      return;
+    }
+    const { pathname, hash } = window.location;
+    const url = `${pathname}${search ? `?${search}` : ""}${hash}`;
+    if (mode === "push") {
+      window.history.pushState(window.history.state, "", url);
+    } else {
+      window.history.replaceState(window.history.state, "", url);
+    }
+  },
+  subscribe: (listener) => {
+    if (typeof window === "undefined") {
+      return () => undefined;
+    }
+    window.addEventListener("popstate", listener);
+    return () => window.removeEventListener("popstate", listener);
+  },
+};
+
+/**
+ * Hook useUrlReadOptions - Paramètres de `read.many` reflétés dans l'URL
+ *
+ * @param many Opération `read.many` d'un résultat useCRUD
+ * @param options Configuration de la synchronisation
+ * @returns Paramètres effectifs et fonctions de modification
+ *
+ * @example
+ * const { read } = useProjects({ read: { service: projectService } });
+ * const { params, setParams } = useUrlReadOptions(read.many, {
+ *   defaults: { pagination: { page: 1, limit: 20 }, sort: "-createdAt" },
+ * });
+ * setParams((current) => ({ ...current, pagination: { ...current.pagination, page: 2 } }));
+ */
+export function useUrlReadOptions<
+  TParams extends ReadOptions<any, any, any> = ReadOptions
+>(
+  many: { execute: (params?: TParams) => Promise<unknown> },
+  options: UseUrlReadOptionsOptions<TParams> = {}
+): UrlReadOptionsResult<TParams> {
+  const location = options.location ?? browserLocation;
+  const [search, setSearch] = useState(() => location.getSearch());
+
+  const defaults: Partial<TParams> = options.defaults ?? {};
+  const decoded = decodeReadOptions<TParams>(search, options);
+  // La pagination de l'URL complète celle par défaut (ex: page seule, limite par défaut)
+  const params = {
+    ...defaults,
+    ...decoded,
+    ...(decoded.pagination && {
+      pagination: { ...defaults.pagination, ...decoded.pagination },
+    }),
+  } as TParams;
+
+  // Clé des paramètres effectifs : les autres paramètres d'URL ne relancent pas la lecture
+  const paramsKey = encodeReadOptions(params, options).toString();
+
+  // Valeurs courantes, lues par les effets et les callbacks sans dépendre du rendu
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+  const executeRef = useRef(many.execute);
+  executeRef.current = many.execute;
+
+  // Relecture de l'URL lors des navigations
+  useEffect(
+    () => location.subscribe(() => setSearch(location.getSearch())),
+    [location]
+  );
+
+  // Lecture à chaque changement des paramètres effectifs
+  useEffect(() => {
+    if (options.enabled === false) {
+      return;
+    }
+    // L'échec est exposé par l'état de `read.many`
+    executeRef.current(paramsRef.current).catch(() => undefined);
+  }, [paramsKey, options.enabled]);
+
+  /**
+   * Écrit des paramètres dans l'URL, sans les valeurs égales aux valeurs par défaut
+   */
+  const writeParams = (next: Partial<TParams>): void => {
+    const written = Object.fromEntries(
+      Object.entries(next).filter(
+        ([key, value]) =>
+          encodeReadOptions({ [key]: value }, options).toString() !==
+          encodeReadOptions(
+            { [key]: defaults[key as keyof TParams] },
+            options
+          ).toString()
+      )
+    ) as Partial<TParams>;
+
+    location.setSearch(
+      withReadOptions(location.getSearch(), written, options).toString(),
+      options.history ?? "replace"
+    );
+    setSearch(location.getSearch());
+  };
+
+  return {
+    params,
+    setParams: (update) =>
+      writeParams(
+        typeof update === "function" ? update(paramsRef.current) : update
+      ),
+    resetParams: () => writeParams({}),
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Tests de la file des mutations hors ligne
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  CancelledError,
+  ConflictError,
+  NetworkError,
+  NotFoundError,
+} from "../../types/errors";
+import {
+  MutationOutcome,
+  OfflineQueue,
+  OfflineQueueOptions,
+  createMemoryStorage,
+} from "../offlineQueue";
+
+const queues: OfflineQueue[] = [];
+
+/**
+ * File pilotée par le test : connexion simulée, attente de rejeu sans variation
+ */
+function createQueue(options: OfflineQueueOptions = {}) {
+  let online = false;
+  let onConnectivityChange: () => void = () => undefined;
+  const queue = new OfflineQueue({
+    isOnline: () => online,
+    subscribeConnectivity: (onChange) => {
+      onConnectivityChange = onChange;
+      return () => undefined;
+    },
+    retryDelay: { baseDelayMs: 5, jitter: false },
+    ...options,
+  });
+  queues.push(queue);
+
+  return {
+    queue,
+    setOnline: (next: boolean) => {
+      online = next;
+      onConnectivityChange();
+    },
+  };
+}
+
+/**
+ * Attend la fin des rejeux déclenchés en arrière-plan
+ */
+function flush(delayMs = 0): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, delayMs));
+}
+
+afterEach(() => {
+  queues.splice(0).forEach((queue) => queue.dispose());
+});
+
+describe("OfflineQueue", () => {
+  it("rejoue les mutations dans l'ordre au retour de la connexion", async () => {
+    const { queue, setOnline } = createQueue();
+    const replayed: unknown[] = [];
+    queue.register("projects", {
+      create: async (data) => replayed.push(data),
+      update: async (data) => replayed.push(data),
+    });
+
+    await queue.enqueue("projects", "create", { name: "Alpha" });
+    await queue.enqueue("projects", "update", { id: "1", name: "Beta" });
+    expect(queue.getState().pending).toHaveLength(2);
+
+    setOnline(true);
+    await queue.replay();
+
+    expect(replayed).toEqual([{ name: "Alpha" }, { id: "1", name: "Beta" }]);
+    expect(queue.hasPending()).toBe(false);
+  });
+
+  it("transmet à l'émetteur le résultat du rejeu", async () => {
+    const { queue, setOnline } = createQueue();
+    queue.register("projects", {
+      create: async (data) => ({ id: "1", ...(data as object) }),
+    });
+    const onSettled = vi.fn<(outcome: MutationOutcome) => void>();
+
+    await queue.enqueue("projects", "create", { name: "Alpha" }, onSettled);
+    setOnline(true);
+    await queue.replay();
+
+    expect(onSettled).toHaveBeenCalledWith({
+      status: "fulfilled",
+      result: { id: "1", name: "Alpha" },
+    });
+  });
+
+  it("relance après une erreur transitoire jusqu'au succès", async () => {
+    const { queue, setOnline } = createQueue();
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new NetworkError("Offline"))
+      .mockRejectedValueOnce(new NetworkError("Offline"))
+      .mockResolvedValue({ id: "1" });
+    queue.register("projects", { create: handler });
+
+    await queue.enqueue("projects", "create", { name: "Alpha" });
+    setOnline(true);
+    await queue.replay();
+    expect(queue.getState().pending[0].attempts).toBe(1);
+
+    await flush(50);
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(queue.hasPending()).toBe(false);
+  });
+
+  it("retire les mutations rejetées définitivement et prévient l'émetteur", async () => {
+    const { queue, setOnline } = createQueue();
+    queue.register("projects", {
+      update: async () => {
+        throw new ConflictError("Stale version");
+      },
+      delete: async () => {
+        throw new NotFoundError("Missing");
+      },
+    });
+    const onSettled = vi.fn<(outcome: MutationOutcome) => void>();
+
+    await queue.enqueue("projects", "update", { id: "1" }, onSettled);
+    await queue.enqueue("projects", "delete", { id: "2" });
+    setOnline(true);
+    await queue.replay();
+
+    const state = queue.getState();
+    expect(state.pending).toEqual([]);
+    expect(state.conflicts.map(({ error }) => error.kind)).toEqual([
+      "conflict",
+    ]);
+    expect(state.failures.map(({ error }) => error.kind)).toEqual([
+      "not-found",
+    ]);
+    expect(onSettled.mock.calls[0][0]).toMatchObject({ status: "rejected" });
+  });
+
+  it("conserve les mutations d'une entité sans exécuteur sans bloquer les autres", async () => {
+    const { queue, setOnline } = createQueue();
+    const create = vi.fn().mockResolvedValue(undefined);
+    queue.register("tasks", { create });
+
+    await queue.enqueue("projects", "create", { name: "Alpha" });
+    await queue.enqueue("tasks", "create", { title: "Task" });
+    setOnline(true);
+    await queue.replay();
+
+    expect(create).toHaveBeenCalledWith({ title: "Task" });
+    expect(
+      queue.getState().pending.map(({ entityName }) => entityName)
+    ).toEqual(["projects"]);
+  });
+
+  it("rejette avec CancelledError une mutation retirée de la file", async () => {
+    const { queue } = createQueue();
+    const onSettled = vi.fn<(outcome: MutationOutcome) => void>();
+
+    const mutation = await queue.enqueue(
+      "projects",
+      "create",
+      { name: "Alpha" },
+      onSettled
+    );
+    await queue.discard(mutation.id);
+
+    const [outcome] = onSettled.mock.calls[0];
+    expect(outcome.status).toBe("rejected");
+    expect(outcome.status === "rejected" && outcome.error).toBeInstanceOf(
+      CancelledError
+    );
+    expect(queue.hasPending()).toBe(false);
+  });
+
+  it("restaure la file persistée devant les nouvelles mutations", async () => {
+    const storage = createMemoryStorage();
+    const first = createQueue({ storage });
+    await first.queue.enqueue("projects", "create", { name: "Alpha" });
+    first.queue.dispose();
+
+    const { queue, setOnline } = createQueue({ storage });
+    const replayed: unknown[] = [];
+    queue.register("projects", {
+      create: async (data) => replayed.push(data),
+    });
+    await queue.enqueue("projects", "create", { name: "Beta" });
+    setOnline(true);
+    await queue.replay();
+
+    expect(replayed).toEqual([{ name: "Alpha" }, { name: "Beta" }]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests des mises à jour optimistes du cache des lectures
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  applyOptimisticUpdates,
+  defaultOptimisticUpdates,
+} from "../optimistic";
+import { QueryCache, createQueryKey } from "../queryCache";
+
+interface Project {
+  id?: string;
+  name: string;
+}
+
+const listKey = createQueryKey("projects", "getMany");
+const oneKey = createQueryKey("projects", "getOne", undefined, "1");
+
+/**
+ * Cache dont les lectures sont fraîches pendant une minute
+ */
+function createCache(): QueryCache {
+  const queryCache = new QueryCache({ staleTime: 60_000 });
+  queryCache.setData(listKey, {
+    data: [{ id: "1", name: "Alpha" }],
+    meta: { total: 1 },
+  });
+  queryCache.setData(oneKey, { id: "1", name: "Alpha" });
+  return queryCache;
+}
+
+describe("applyOptimisticUpdates", () => {
+  it("applique la prévision d'une création aux listes", () => {
+    const queryCache = createCache();
+
+    applyOptimisticUpdates(
+      queryCache,
+      "projects",
+      defaultOptimisticUpdates.create,
+      { name: "Beta" }
+    );
+
+    expect(queryCache.getData(listKey)).toEqual({
+      data: [{ id: "1", name: "Alpha" }, { name: "Beta" }],
+      meta: { total: 2 },
+    });
+  });
+
+  it("fusionne une création dont l'entité figure déjà dans la liste", () => {
+    const queryCache = createCache();
+
+    applyOptimisticUpdates(
+      queryCache,
+      "projects",
+      defaultOptimisticUpdates.create,
+      { id: "1", name: "Alpha 2" }
+    );
+
+    expect(queryCache.getData(listKey)).toEqual({
+      data: [{ id: "1", name: "Alpha 2" }],
+      meta: { total: 1 },
+    });
+  });
+
+  it("ne rend pas fraîches les entrées portant une prévision", () => {
+    const queryCache = createCache();
+    queryCache.invalidateQueries(() => true);
+
+    applyOptimisticUpdates(
+      queryCache,
+      "projects",
+      defaultOptimisticUpdates.update,
+      { id: "1", name: "Alpha 2" }
+    );
+
+    expect(queryCache.getData(oneKey)).toEqual({ id: "1", name: "Alpha 2" });
+    expect(queryCache.isStale(oneKey)).toBe(true);
+    expect(queryCache.isStale(listKey)).toBe(true);
+  });
+
+  it("restaure les données d'origine puis invalide les entrées", () => {
+    const queryCache = createCache();
+    const original = queryCache.getData(listKey);
+
+    const rollback = applyOptimisticUpdates(
+      queryCache,
+      "projects",
+      defaultOptimisticUpdates.delete,
+      { id: "1" }
+    );
+    expect(queryCache.getData(listKey)).toEqual({
+      data: [],
+      meta: { total: 0 },
+    });
+
+    rollback();
+    expect(queryCache.getData(listKey)).toBe(original);
+    expect(queryCache.isStale(listKey)).toBe(true);
+  });
+
+  it("conserve à la restauration une donnée plus récente que la prévision", () => {
+    const queryCache = createCache();
+    const rollback = applyOptimisticUpdates(
+      queryCache,
+      "projects",
+      defaultOptimisticUpdates.update,
+      { id: "1", name: "Alpha 2" }
+    );
+
+    // Relecture survenue pendant la mutation
+    const refetched = { id: "1", name: "Alpha 3" };
+    queryCache.setData(oneKey, refetched);
+
+    rollback();
+    expect(queryCache.getData(oneKey)).toBe(refetched);
+    expect(queryCache.getData<{ data: Project[] }>(listKey)?.data).toEqual([
+      { id: "1", name: "Alpha" },
+    ]);
+    expect(queryCache.isStale(oneKey)).toBe(true);
+  });
+
+  it("restaure l'état d'origine d'une entrée visée par plusieurs prévisions", () => {
+    const queryCache = createCache();
+    const original = queryCache.getData(listKey);
+
+    const rollback = applyOptimisticUpdates(
+      queryCache,
+      "projects",
+      [...defaultOptimisticUpdates.create, ...defaultOptimisticUpdates.create],
+      { name: "Beta" }
+    );
+    expect(queryCache.getData<{ data: Project[] }>(listKey)?.data).toHaveLength(
+      3
+    );
+
+    rollback();
+    expect(queryCache.getData(listKey)).toBe(original);
+  });
+});
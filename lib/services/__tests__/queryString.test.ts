@@ -0,0 +1,106 @@
+/**
+ * Tests du codec entre ReadOptions et paramètres d'URL
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  decodeFilterValue,
+  decodeReadOptions,
+  encodeFilterValue,
+  encodeReadOptions,
+  withReadOptions,
+} from "../queryString";
+
+describe("encodeFilterValue / decodeFilterValue", () => {
+  it.each([
+    ["texte", "texte"],
+    [42, "42"],
+    [-1.5, "-1.5"],
+    [true, "true"],
+    [null, "null"],
+    ["18", '"18"'],
+    ["true", '"true"'],
+    ["null", '"null"'],
+    ['"quoted"', '"\\"quoted\\""'],
+  ])("restitue %j", (value, encoded) => {
+    expect(encodeFilterValue(value)).toBe(encoded);
+    expect(decodeFilterValue(encoded)).toEqual(value);
+  });
+
+  it("restitue une date", () => {
+    const date = new Date("2026-10-19T08:30:00.000Z");
+
+    expect(decodeFilterValue(encodeFilterValue(date))).toEqual(date);
+  });
+});
+
+describe("encodeReadOptions / decodeReadOptions", () => {
+  const options = {
+    pagination: { page: 2, limit: 20 },
+    filter: {
+      status: "active",
+      "owner.name": "Ada",
+      code: "18",
+      id: ["1", "2"],
+      age: { gte: 18, between: [1, 9] },
+      archived: false,
+      deletedAt: { isNull: true },
+      createdAt: { gte: new Date("2026-01-01T00:00:00.000Z") },
+      or: [{ priority: 1 }, { and: [{ tag: "a" }, { tag: "null" }] }],
+      not: { status: "archived" },
+    },
+    sort: ["-createdAt", "owner.name"],
+    includes: ["owner", "tasks"],
+    search: "hello world",
+  };
+
+  it("restitue les ReadOptions encodées, types des valeurs de filtre compris", () => {
+    expect(decodeReadOptions(encodeReadOptions(options))).toEqual(options);
+  });
+
+  it("restitue les ReadOptions d'un préfixe sans lire celles des autres", () => {
+    const query = encodeReadOptions(options, { prefix: "projects." });
+    encodeReadOptions({ search: "other" }, { prefix: "tasks." }).forEach(
+      (value, key) => query.append(key, value)
+    );
+
+    expect(decodeReadOptions(query, { prefix: "projects." })).toEqual(options);
+    expect(decodeReadOptions(query, { prefix: "tasks." })).toEqual({
+      search: "other",
+    });
+  });
+
+  it("restitue une chaîne de requête réécrite par le navigateur", () => {
+    const search = `?${encodeReadOptions(options).toString()}`;
+
+    expect(decodeReadOptions(search)).toEqual(options);
+  });
+
+  it("lit un tri unique comme une chaîne et ignore une pagination invalide", () => {
+    expect(decodeReadOptions("?sort=-name&page=abc&limit=10")).toEqual({
+      sort: "-name",
+      pagination: { limit: 10 },
+    });
+  });
+
+  it("applique l'interprétation des valeurs de filtre fournie", () => {
+    expect(
+      decodeReadOptions("?filter[code]=18", {
+        parseFilterValue: (value) => value,
+      })
+    ).toEqual({ filter: { code: "18" } });
+  });
+});
+
+describe("withReadOptions", () => {
+  it("remplace les ReadOptions en conservant les autres paramètres", () => {
+    const query = withReadOptions("?tab=2&page=3&filter[status]=active", {
+      search: "alpha",
+    });
+
+    expect(query.get("tab")).toBe("2");
+    expect(decodeReadOptions(query)).toEqual({ search: "alpha" });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests des politiques de relance
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  CancelledError,
+  CrudError,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+} from "../../types/errors";
+import { computeBackoff, isTransientError, withRetry } from "../retry";
+
+/**
+ * Erreur transitoire (erreur serveur)
+ */
+function serverError(): CrudError {
+  return new CrudError("Server error", { status: 503 });
+}
+
+describe("computeBackoff", () => {
+  it("double l'attente à chaque tentative sans dépasser le maximum", () => {
+    const policy = { baseDelayMs: 100, maxDelayMs: 500, jitter: false };
+
+    expect(
+      [1, 2, 3, 4].map((attempt) => computeBackoff(attempt, policy))
+    ).toEqual([100, 200, 400, 500]);
+  });
+
+  it("conserve au moins la moitié de l'attente avec la variation aléatoire", () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = computeBackoff(2, { baseDelayMs: 100 });
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThanOrEqual(200);
+    }
+  });
+});
+
+describe("isTransientError", () => {
+  it("relance les erreurs réseau, les délais, la limitation et les erreurs serveur", () => {
+    expect(isTransientError(new NetworkError("x"))).toBe(true);
+    expect(isTransientError(new TimeoutError("x"))).toBe(true);
+    expect(isTransientError(new CrudError("x", { status: 429 }))).toBe(true);
+    expect(isTransientError(serverError())).toBe(true);
+    expect(isTransientError(new NotFoundError("x"))).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  it("relance une erreur transitoire jusqu'au succès", async () => {
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(serverError())
+      .mockRejectedValueOnce(serverError())
+      .mockResolvedValue("ok");
+    const onAttempt = vi.fn();
+
+    await expect(
+      withRetry(task, {
+        retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false },
+        onAttempt,
+      })
+    ).resolves.toBe("ok");
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(onAttempt.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+  });
+
+  it("rejette la dernière erreur lorsque les tentatives sont épuisées", async () => {
+    const error = serverError();
+    const task = vi.fn().mockRejectedValue(error);
+
+    await expect(
+      withRetry(task, { retry: { maxAttempts: 2, baseDelayMs: 1 } })
+    ).rejects.toBe(error);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("ne relance pas une erreur définitive", async () => {
+    const task = vi.fn().mockRejectedValue(new NotFoundError("Missing"));
+
+    await expect(
+      withRetry(task, { retry: { maxAttempts: 3, baseDelayMs: 1 } })
+    ).rejects.toBeInstanceOf(NotFoundError);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("respecte le prédicat de relance fourni", async () => {
+    const task = vi.fn().mockRejectedValue(new NotFoundError("Missing"));
+
+    await expect(
+      withRetry(task, {
+        retry: { maxAttempts: 2, baseDelayMs: 1, retryOn: () => true },
+      })
+    ).rejects.toBeInstanceOf(NotFoundError);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("interrompt une tentative qui dépasse le délai maximal", async () => {
+    let attemptSignal: AbortSignal | undefined;
+    const task = (_attempt: number, signal: AbortSignal) => {
+      attemptSignal = signal;
+      return new Promise<never>(() => undefined);
+    };
+
+    await expect(withRetry(task, { timeoutMs: 5 })).rejects.toBeInstanceOf(
+      TimeoutError
+    );
+    expect(attemptSignal?.aborted).toBe(true);
+  });
+
+  it("interrompt l'attente entre deux tentatives lorsque l'appel est annulé", async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockImplementation(async () => {
+      setTimeout(() => controller.abort(), 5);
+      throw serverError();
+    });
+
+    await expect(
+      withRetry(task, {
+        retry: { maxAttempts: 3, baseDelayMs: 10_000 },
+        signal: controller.signal,
+      })
+    ).rejects.toBeInstanceOf(CancelledError);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
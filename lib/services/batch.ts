@@ -0,0 +1,174 @@
+/**
+ * Opérations CRUD par lot
+ * Rapport par élément, découpage en paquets et exécution à concurrence bornée
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { CancelledError, CrudError } from "../types/errors";
+import { CrudCallOptions } from "./retry";
+
+/**
+ * Opérations par lot
+ */
+export type BatchOperation = "createMany" | "updateMany" | "deleteMany";
+
+/**
+ * Issue d'un élément du lot
+ */
+export type BatchItemResult<TInput, TResult> =
+  | { index: number; input: TInput; status: "fulfilled"; result: TResult }
+  | { index: number; input: TInput; status: "rejected"; error: CrudError };
+
+/**
+ * Rapport d'une opération par lot, dans l'ordre des éléments reçus
+ */
+export interface BatchReport<TInput, TResult> {
+  items: BatchItemResult<TInput, TResult>[];
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Options d'un appel par lot
+ * La relance et le délai s'appliquent à chaque requête (paquet ou élément), jamais au lot entier
+ */
+export interface BatchCallOptions extends CrudCallOptions {
+  /** Nombre maximal de requêtes simultanées (par défaut : 5) */
+  concurrency?: number;
+  /** Taille des paquets envoyés à l'API de masse (par défaut : lot entier) */
+  chunkSize?: number;
+}
+
+/**
+ * Construit le rapport d'un lot à partir des issues de ses éléments
+ *
+ * @param items Issues des éléments, dans un ordre quelconque
+ * @returns Rapport trié par index
+ */
+export function createBatchReport<TInput, TResult>(
+  items: BatchItemResult<TInput, TResult>[]
+): BatchReport<TInput, TResult> {
+  const sorted = [...items].sort((a, b) => a.index - b.index);
+  const succeeded = sorted.filter((item) => item.status === "fulfilled").length;
+  return { items: sorted, succeeded, failed: sorted.length - succeeded };
+}
+
+/**
+ * Vérifie qu'une valeur est un rapport de lot
+ */
+export function isBatchReport(
+  value: unknown
+): value is BatchReport<unknown, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    Array.isArray((value as BatchReport<unknown, unknown>).items) &&
+    typeof (value as BatchReport<unknown, unknown>).succeeded === "number"
+  );
+}
+
+/**
+ * Identifiant d'une entité envoyée ou retournée, undefined s'il est absent
+ */
+function getItemId(value: unknown): string | undefined {
+  const id =
+    value !== null && typeof value === "object"
+      ? (value as { id?: unknown }).id
+      : undefined;
+  return typeof id === "string" || typeof id === "number"
+    ? String(id)
+    : undefined;
+}
+
+/**
+ * Associe les résultats d'une requête de masse aux entités envoyées
+ * Par identifiant lorsque les entités envoyées et les résultats en portent tous un
+ * (ordre de réponse libre), par position sinon
+ *
+ * @param entities Entités envoyées
+ * @param results Réponse de l'API de masse
+ * @returns Résultat de chaque entité ; `found: false` si la réponse ne le contient pas
+ */
+export function matchBulkResults<TResult>(
+  entities: unknown[],
+  results: unknown
+): Array<{ found: true; result: TResult } | { found: false }> {
+  const list = Array.isArray(results) ? (results as TResult[]) : [];
+  const sentIds = entities.map(getItemId);
+  const resultIds = list.map(getItemId);
+
+  if (
+    list.length > 0 &&
+    sentIds.every((id) => id !== undefined) &&
+    resultIds.every((id) => id !== undefined)
+  ) {
+    const byId = new Map(
+      list.map((result, position) => [resultIds[position], result])
+    );
+    return sentIds.map((id) =>
+      byId.has(id) ? { found: true, result: byId.get(id)! } : { found: false }
+    );
+  }
+
+  return entities.map((_entity, position) =>
+    position < list.length
+      ? { found: true, result: list[position] }
+      : { found: false }
+  );
+}
+
+/**
+ * Découpe une liste en paquets de taille bornée
+ *
+ * @param items Éléments à découper
+ * @param size Taille maximale d'un paquet (lot entier si absente)
+ * @returns Paquets, dans l'ordre
+ */
+export function chunk<T>(items: T[], size?: number): T[][] {
+  if (size === undefined || size <= 0 || size >= items.length) {
+    return items.length > 0 ? [items] : [];
+  }
+
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+/**
+ * Exécute une tâche par élément avec un nombre borné de tâches simultanées
+ * L'annulation du signal interrompt le lancement de nouvelles tâches
+ *
+ * @param items Éléments à traiter
+ * @param concurrency Nombre maximal de tâches simultanées
+ * @param task Tâche exécutée pour chaque élément
+ * @param signal Signal d'annulation du lot
+ * @throws CancelledError si le lot est annulé
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      if (signal?.aborted) {
+        throw new CancelledError("Operation cancelled");
+      }
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      () => worker()
+    )
+  );
+}
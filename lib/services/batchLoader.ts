@@ -0,0 +1,136 @@
+/**
+ * Regroupement de lectures unitaires concurrentes (modèle DataLoader)
+ * Les clés demandées pendant une même fenêtre sont chargées en une seule requête,
+ * puis chaque résultat est rendu à son appelant
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { awaitWithSignal } from "./retry";
+
+/**
+ * Options de regroupement
+ */
+export interface BatchLoaderOptions {
+  /** Nombre maximal de clés par requête (par défaut : illimité) */
+  maxBatchSize?: number;
+  /** Durée de la fenêtre de regroupement en millisecondes (par défaut : 0, fin du tick) */
+  delayMs?: number;
+  /** Conserve les résultats obtenus jusqu'à `clear` (par défaut : seules les requêtes en cours sont partagées) */
+  memoize?: boolean;
+}
+
+/**
+ * Chargeur regroupant les demandes de clés
+ */
+export interface BatchLoader<TKey, TValue> {
+  /**
+   * Demande une clé
+   * @param signal Annule l'attente de l'appelant sans interrompre la requête groupée
+   */
+  load(key: TKey, signal?: AbortSignal): Promise<TValue>;
+  /** Oublie une clé mémorisée, ou toutes si aucune clé n'est fournie */
+  clear(key?: TKey): void;
+  /** Nombre de clés en cours de chargement ou mémorisées */
+  readonly size: number;
+}
+
+/**
+ * Demande en attente de la prochaine requête groupée
+ */
+interface PendingLoad<TKey, TValue> {
+  key: TKey;
+  resolve: (value: TValue) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Crée un chargeur regroupant les demandes d'une même fenêtre
+ *
+ * @param batchFn Charge un ensemble de clés ; retourne une valeur ou une erreur par clé, dans l'ordre
+ * @param options Taille maximale, fenêtre et mémorisation
+ * @returns Chargeur
+ */
+export function createBatchLoader<TKey, TValue>(
+  batchFn: (keys: TKey[]) => Promise<Array<TValue | Error>>,
+  options: BatchLoaderOptions = {}
+): BatchLoader<TKey, TValue> {
+  const promises = new Map<TKey, Promise<TValue>>();
+  let queue: PendingLoad<TKey, TValue>[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const forget = (key: TKey, promise: Promise<TValue>) => {
+    if (promises.get(key) === promise) {
+      promises.delete(key);
+    }
+  };
+
+  const dispatchBatch = async (batch: PendingLoad<TKey, TValue>[]) => {
+    try {
+      const values = await batchFn(batch.map((pending) => pending.key));
+      batch.forEach((pending, index) => {
+        const value = values[index];
+        if (value instanceof Error) {
+          pending.reject(value);
+        } else {
+          pending.resolve(value);
+        }
+      });
+    } catch (error) {
+      batch.forEach((pending) => pending.reject(error));
+    }
+  };
+
+  const dispatch = () => {
+    timer = undefined;
+    const pending = queue;
+    queue = [];
+
+    const size = options.maxBatchSize ?? pending.length;
+    for (let start = 0; start < pending.length; start += Math.max(1, size)) {
+      void dispatchBatch(pending.slice(start, start + Math.max(1, size)));
+    }
+  };
+
+  return {
+    load(key, signal) {
+      let promise = promises.get(key);
+
+      if (!promise) {
+        const created = new Promise<TValue>((resolve, reject) => {
+          queue.push({ key, resolve, reject });
+        });
+        promise = created;
+        promises.set(key, created);
+
+        // Une erreur n'est jamais mémorisée ; un succès seulement sur demande
+        created.then(
+          () => {
+            if (!options.memoize) {
+              forget(key, created);
+            }
+          },
+          () => forget(key, created)
+        );
+
+        if (timer === undefined) {
+          timer = setTimeout(dispatch, options.delayMs ?? 0);
+        }
+      }
+
+      return awaitWithSignal(promise, signal);
+    },
+
+    clear(key) {
+      if (key === undefined) {
+        promises.clear();
+      } else {
+        promises.delete(key);
+      }
+    },
+
+    get size() {
+      return promises.size;
+    },
+  };
+}
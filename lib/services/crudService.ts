@@ -8,20 +8,63 @@
  * @author Créé le 21 novembre 2021
  */
 
+import {
+  ConflictError,
+  CrudError,
+  CrudOperation,
+  NotFoundError,
+  NotImplementedError,
+  toCrudError,
+} from "../types/errors";
+import {
+  BatchCallOptions,
+  BatchItemResult,
+  BatchOperation,
+  BatchReport,
+  chunk,
+  createBatchReport,
+  isBatchReport,
+  matchBulkResults,
+  runWithConcurrency,
+} from "./batch";
+import {
+  BatchLoader,
+  BatchLoaderOptions,
+  createBatchLoader,
+} from "./batchLoader";
+import {
+  composeMiddleware,
+  CrudMiddleware,
+  CrudMiddlewareContext,
+} from "./middleware";
+import { EntityEventListener } from "./events";
+import { hashQueryKey } from "./queryCache";
+import { CrudCallOptions, RetryPolicy, withRetry } from "./retry";
+import {
+  CrudLogger,
+  RedactionRules,
+  redactPayload,
+  silentLogger,
+} from "./telemetry";
+
 // Types génériques pour les opérations CRUD
 export interface EntityBase {
   id?: string;
+  // Version de l'entité (numéro ou ETag), renvoyée avec les mises à jour et suppressions
+  // pour détecter les écritures concurrentes
+  version?: number | string;
 }
 
 // Structures topologiques pour les opérations de lecture
 export interface ReadOptions<
   TFilter = Record<string, unknown>,
-  TSort = string | SortOption | Array<string | SortOption>
+  TSort = string | SortOption | Array<string | SortOption>,
+  TInclude extends string = string
 > {
   pagination?: PaginationOptions;
-  filter?: TFilter;
-  sort?: TSort;
-  includes?: string[];
+  filter?: TFilter; // Filtre typé (`Filter<TEntity>`) ou dictionnaire d'égalités
+  sort?: TSort; // Tri typé (`TypedSort<TEntity>`) ou noms de champs libres
+  includes?: TInclude[]; // Chemins de relations (`IncludePath<TEntity>`)
   search?: string;
 }
 
@@ -32,11 +75,50 @@ export interface PaginationOptions {
   cursor?: string; // Pagination basée sur les curseurs
 }
 
-export interface SortOption {
-  field: string;
+export interface SortOption<TField extends string = string> {
+  field: TField;
   direction: "asc" | "desc";
 }
 
+/**
+ * Contexte d'exécution transmis aux méthodes de l'API
+ * Le signal est propre à chaque tentative et annulé en cas de délai dépassé ou d'annulation
+ */
+export interface ApiCallContext {
+  signal?: AbortSignal;
+}
+
+/**
+ * Options transverses du service CRUD
+ */
+export interface CrudServiceOptions {
+  /** Destination des événements de télémétrie (silencieux par défaut) */
+  logger?: CrudLogger;
+  /** Règles d'expurgation appliquées aux payloads journalisés */
+  redaction?: RedactionRules;
+  /** Middlewares appliqués à toutes les opérations, du plus externe au plus interne */
+  middleware?: CrudMiddleware[];
+  /** Politique de relance par défaut */
+  retry?: RetryPolicy;
+  /** Délai maximal par tentative en millisecondes */
+  timeoutMs?: number;
+  /** Surcharges de relance et de délai par opération */
+  policies?: Partial<
+    Record<CrudOperation, { retry?: RetryPolicy; timeoutMs?: number }>
+  >;
+  /**
+   * Regroupe les appels getOne concurrents en une seule lecture (`getByIds`,
+   * à défaut `getMany` filtré sur `id`), exécutée sous l'opération "getByIds"
+   * (middlewares, politiques et télémétrie). Désactivé par défaut.
+   */
+  batchGetOne?: boolean | BatchLoaderOptions;
+}
+
+/**
+ * Nombre maximal de chargeurs getOne conservés (un par jeu de paramètres)
+ */
+const MAX_GET_ONE_LOADERS = 50;
+
 /**
  * Service générique pour les opérations CRUD
  * Établit une abstraction pure, indépendante des spécificités des technologies sous-jacentes
@@ -77,19 +159,54 @@ export class CrudService<
    * @param entityName Nom de l'entité (pour les logs)
    * @param api Objet contenant les méthodes d'API pour chaque opération
    * @param transformers Objet contenant les méthodes de transformation entre DTO et Entity
+   * @param options Options transverses (journalisation, expurgation, middlewares, résilience)
    */
   constructor(
     protected readonly entityName: string,
     protected readonly api: {
-      create?: (data: TCreateEntity) => Promise<TCreateResult>;
-      update?: (data: TUpdateEntity) => Promise<TUpdateResult>;
-      delete?: (data: TDeleteEntity) => Promise<TDeleteResult>;
+      create?: (
+        data: TCreateEntity,
+        context?: ApiCallContext
+      ) => Promise<TCreateResult>;
+      update?: (
+        data: TUpdateEntity,
+        context?: ApiCallContext
+      ) => Promise<TUpdateResult>;
+      delete?: (
+        data: TDeleteEntity,
+        context?: ApiCallContext
+      ) => Promise<TDeleteResult>;
+      // Méthodes de masse (optionnelles, résultats dans l'ordre des entrées)
+      createMany?: (
+        data: TCreateEntity[],
+        context?: ApiCallContext
+      ) => Promise<TCreateResult[]>;
+      updateMany?: (
+        data: TUpdateEntity[],
+        context?: ApiCallContext
+      ) => Promise<TUpdateResult[]>;
+      deleteMany?: (
+        data: TDeleteEntity[],
+        context?: ApiCallContext
+      ) => Promise<TDeleteResult[]>;
       // Méthodes pour Read
       getOne?: (
         id: string,
-        params?: Omit<TReadParams, "pagination">
+        params?: Omit<TReadParams, "pagination">,
+        context?: ApiCallContext
       ) => Promise<TReadOneResult>;
-      getMany?: (params?: TReadParams) => Promise<TReadManyResult>;
+      // Lecture groupée par identifiants (optionnelle, utilisée par batchGetOne)
+      getByIds?: (
+        ids: string[],
+        params?: Omit<TReadParams, "pagination">,
+        context?: ApiCallContext
+      ) => Promise<TReadOneResult[]>;
+      getMany?: (
+        params?: TReadParams,
+        context?: ApiCallContext
+      ) => Promise<TReadManyResult>;
+      // Abonnement temps réel aux écritures (optionnel, transport libre)
+      subscribe?: (listener: EntityEventListener<TReadOneResult>) => () => void;
     },
     protected readonly transformers?: {
       createDtoToEntity?: (data: TCreateDTO) => TCreateEntity;
@@ -97,79 +214,246 @@ export class CrudService<
       deleteDtoToEntity?: (data: TDeleteDTO) => TDeleteEntity;
       // Transformer pour Read
       readParamsToQuery?: (params: TReadParams) => unknown;
-    }
+    },
+    protected readonly options: CrudServiceOptions = {}
   ) {}
 
+  // Chargeurs getOne regroupés, par jeu de paramètres ; un chargeur sans clé en cours
+  // ni mémorisée est retiré, les plus anciens au-delà de MAX_GET_ONE_LOADERS
+  private readonly getOneLoaders = new Map<
+    string,
+    BatchLoader<string, TReadOneResult>
+  >();
+
   /**
-   * Opération Create - Création d'une nouvelle entité
-   * Transaction atomique garantissant l'intégrité des données
-   *
-   * @param data DTO contenant les données pour la création
-   * @returns Entité créée
+   * Émet l'événement de télémétrie d'une opération terminée
+   * Une défaillance du logger n'interrompt jamais l'opération
    */
-  async create(data: TCreateDTO): Promise<TCreateResult> {
-    if (!this.api.create) {
-      throw new Error(`Create API not implemented for ${this.entityName}`);
+  private report(
+    operation: CrudOperation,
+    startedAt: number,
+    payload: unknown,
+    error?: CrudError,
+    result?: unknown
+  ): void {
+    try {
+      (this.options.logger ?? silentLogger).log({
+        entityName: this.entityName,
+        operation,
+        outcome: !error
+          ? "success"
+          : error.kind === "cancelled"
+          ? "cancelled"
+          : "error",
+        durationMs: Date.now() - startedAt,
+        payload: redactPayload(payload, this.options.redaction),
+        error,
+        batch: isBatchReport(result)
+          ? {
+              total: result.items.length,
+              succeeded: result.succeeded,
+              failed: result.failed,
+            }
+          : undefined,
+      });
+    } catch {
+      // Le logger est un observateur : ses erreurs sont ignorées
     }
+  }
+
+  /**
+   * Résout la politique de résilience d'une opération : appel > opération > service
+   */
+  private resolveResilience(
+    operation: CrudOperation,
+    callOptions: CrudCallOptions
+  ): CrudCallOptions {
+    const policy = this.options.policies?.[operation];
+    return {
+      retry: callOptions.retry ?? policy?.retry ?? this.options.retry,
+      timeoutMs:
+        callOptions.timeoutMs ?? policy?.timeoutMs ?? this.options.timeoutMs,
+      onAttempt: callOptions.onAttempt,
+      signal: callOptions.signal,
+    };
+  }
+
+  /**
+   * Exécute une opération à travers la chaîne de middlewares
+   * Centralise la télémétrie et la normalisation des erreurs pour toutes les opérations
+   *
+   * @param operation Nom de l'opération
+   * @param input Entrée de l'opération exposée aux middlewares
+   * @param handler Cœur de l'opération (transformation et appel à l'API)
+   * @param callOptions Surcharges de résilience et signal d'annulation propres à l'appel
+   * @returns Résultat de l'opération, éventuellement réécrit par les middlewares
+   */
+  private async run<TInput, TResult>(
+    operation: CrudOperation,
+    input: TInput,
+    handler: (input: TInput, context: ApiCallContext) => Promise<TResult>,
+    callOptions: CrudCallOptions = {}
+  ): Promise<TResult> {
+    const resilience = this.resolveResilience(operation, callOptions);
+
+    const startedAt = Date.now();
+    const context: CrudMiddlewareContext = {
+      entityName: this.entityName,
+      operation,
+      input,
+      state: {},
+      signal: callOptions.signal,
+    };
 
     try {
-      // Transformation des données via le transformateur (couche logique métier → infrastructure)
-      let entityData: TCreateEntity;
-      if (this.transformers?.createDtoToEntity) {
-        entityData = this.transformers.createDtoToEntity(data);
-      } else {
-        // Conversion sécurisée via type assertion contrôlée
-        entityData = data as unknown as TCreateEntity;
-      }
+      await composeMiddleware(this.options.middleware ?? [])(
+        context,
+        async () => {
+          // Seul l'appel à l'API est relancé, les middlewares s'exécutent une fois
+          context.result = await withRetry(
+            (_attempt, signal) => handler(context.input as TInput, { signal }),
+            resilience
+          );
+        }
+      );
 
-      // Log de l'opération pour traçabilité
-      console.debug(`Creating ${this.entityName}:`, entityData);
+      // Une écriture rend obsolètes les entités mémorisées par les chargeurs getOne
+      if (
+        operation !== "getOne" &&
+        operation !== "getByIds" &&
+        operation !== "getMany"
+      ) {
+        this.getOneLoaders.clear();
+      }
 
-      // Appel à l'API - Interaction avec la source de données
-      const result = await this.api.create(entityData);
+      // Télémétrie de l'opération pour traçabilité
+      this.report(
+        operation,
+        startedAt,
+        context.input,
+        undefined,
+        context.result
+      );
 
-      return result;
+      return context.result as TResult;
     } catch (error) {
-      // Gestion des erreurs avec contexte enrichi
-      console.error(`Error creating ${this.entityName}:`, error);
-      throw error;
+      // Gestion des erreurs avec contexte enrichi et normalisation typée
+      const crudError = toCrudError(error, {
+        entityName: this.entityName,
+        operation,
+      });
+      if (crudError instanceof ConflictError) {
+        await this.completeConflict(crudError, context.input);
+      }
+      this.report(operation, startedAt, context.input, crudError);
+      throw crudError;
     }
   }
 
   /**
-   * Opération Update - Mise à jour d'une entité existante
-   * Transaction atomique garantissant l'intégrité des données
-   *
-   * @param data DTO contenant les données pour la mise à jour
-   * @returns Entité mise à jour
+   * Complète un conflit d'écriture avec la copie locale envoyée et, à défaut de copie
+   * fournie par l'API, la copie courante relue sur le serveur
+   * Un échec de la relecture laisse la copie serveur absente
    */
-  async update(data: TUpdateDTO): Promise<TUpdateResult> {
-    if (!this.api.update) {
-      throw new Error(`Update API not implemented for ${this.entityName}`);
+  private async completeConflict(
+    error: ConflictError,
+    input: unknown
+  ): Promise<void> {
+    if (error.local === undefined) {
+      error.local = input;
     }
 
-    try {
-      // Transformation des données via le transformateur (couche logique métier → infrastructure)
-      let entityData: TUpdateEntity;
-      if (this.transformers?.updateDtoToEntity) {
-        entityData = this.transformers.updateDtoToEntity(data);
-      } else {
-        // Conversion sécurisée via type assertion contrôlée
-        entityData = data as unknown as TUpdateEntity;
-      }
+    const id = (input as EntityBase | null)?.id;
+    if (
+      error.server !== undefined ||
+      typeof id !== "string" ||
+      !this.api.getOne ||
+      (error.operation !== "update" && error.operation !== "delete")
+    ) {
+      return;
+    }
 
-      // Log de l'opération pour traçabilité
-      console.debug(`Updating ${this.entityName}:`, entityData);
+    try {
+      error.server = await this.getOne(id);
+    } catch {
+      // L'entité a pu être supprimée entre-temps
+    }
+  }
 
-      // Appel à l'API - Interaction avec la source de données
-      const result = await this.api.update(entityData);
+  /**
+   * Opération Create - Création d'une nouvelle entité
+   * Transaction atomique garantissant l'intégrité des données
+   *
+   * @param data DTO contenant les données pour la création
+   * @param callOptions Surcharges de résilience et signal d'annulation propres à l'appel
+   * @returns Entité créée
+   */
+  async create(
+    data: TCreateDTO,
+    callOptions?: CrudCallOptions
+  ): Promise<TCreateResult> {
+    return this.run(
+      "create",
+      data,
+      async (input, apiContext) => {
+        if (!this.api.create) {
+          throw new NotImplementedError(
+            `Create API not implemented for ${this.entityName}`
+          );
+        }
+
+        // Transformation des données via le transformateur (couche logique métier → infrastructure)
+        let entityData: TCreateEntity;
+        if (this.transformers?.createDtoToEntity) {
+          entityData = this.transformers.createDtoToEntity(input);
+        } else {
+          // Conversion sécurisée via type assertion contrôlée
+          entityData = input as unknown as TCreateEntity;
+        }
+
+        // Appel à l'API - Interaction avec la source de données
+        return this.api.create(entityData, apiContext);
+      },
+      callOptions
+    );
+  }
 
-      return result;
-    } catch (error) {
-      // Gestion des erreurs avec contexte enrichi
-      console.error(`Error updating ${this.entityName}:`, error);
-      throw error;
-    }
+  /**
+   * Opération Update - Mise à jour d'une entité existante
+   * Transaction atomique garantissant l'intégrité des données
+   *
+   * @param data DTO contenant les données pour la mise à jour
+   * @param callOptions Surcharges de résilience et signal d'annulation propres à l'appel
+   * @returns Entité mise à jour
+   */
+  async update(
+    data: TUpdateDTO,
+    callOptions?: CrudCallOptions
+  ): Promise<TUpdateResult> {
+    return this.run(
+      "update",
+      data,
+      async (input, apiContext) => {
+        if (!this.api.update) {
+          throw new NotImplementedError(
+            `Update API not implemented for ${this.entityName}`
+          );
+        }
+
+        // Transformation des données via le transformateur (couche logique métier → infrastructure)
+        let entityData: TUpdateEntity;
+        if (this.transformers?.updateDtoToEntity) {
+          entityData = this.transformers.updateDtoToEntity(input);
+        } else {
+          // Conversion sécurisée via type assertion contrôlée
+          entityData = input as unknown as TUpdateEntity;
+        }
+
+        // Appel à l'API - Interaction avec la source de données
+        return this.api.update(entityData, apiContext);
+      },
+      callOptions
+    );
   }
 
   /**
@@ -177,35 +461,245 @@ export class CrudService<
    * Transaction atomique garantissant l'intégrité des données
    *
    * @param data DTO contenant les données pour la suppression
+   * @param callOptions Surcharges de résilience et signal d'annulation propres à l'appel
    * @returns Confirmation de suppression
    */
-  async delete(data: TDeleteDTO): Promise<TDeleteResult> {
-    if (!this.api.delete) {
-      throw new Error(`Delete API not implemented for ${this.entityName}`);
-    }
+  async delete(
+    data: TDeleteDTO,
+    callOptions?: CrudCallOptions
+  ): Promise<TDeleteResult> {
+    return this.run(
+      "delete",
+      data,
+      async (input, apiContext) => {
+        if (!this.api.delete) {
+          throw new NotImplementedError(
+            `Delete API not implemented for ${this.entityName}`
+          );
+        }
+
+        // Transformation des données via le transformateur (couche logique métier → infrastructure)
+        let entityData: TDeleteEntity;
+        if (this.transformers?.deleteDtoToEntity) {
+          entityData = this.transformers.deleteDtoToEntity(input);
+        } else {
+          // Conversion sécurisée via type assertion contrôlée
+          entityData = input as unknown as TDeleteEntity;
+        }
+
+        // Appel à l'API - Interaction avec la source de données
+        return this.api.delete(entityData, apiContext);
+      },
+      callOptions
+    );
+  }
 
-    try {
-      // Transformation des données via le transformateur (couche logique métier → infrastructure)
-      let entityData: TDeleteEntity;
-      if (this.transformers?.deleteDtoToEntity) {
-        entityData = this.transformers.deleteDtoToEntity(data);
-      } else {
-        // Conversion sécurisée via type assertion contrôlée
-        entityData = data as unknown as TDeleteEntity;
-      }
+  /**
+   * Exécute une opération par lot
+   * L'API de masse est utilisée si elle existe, par paquets ; à défaut chaque élément
+   * est envoyé individuellement. Dans les deux cas la concurrence est bornée, la relance
+   * et le délai s'appliquent à chaque requête et l'échec d'une requête n'interrompt pas le lot.
+   *
+   * @param operation Nom de l'opération par lot
+   * @param items DTO à traiter
+   * @param toEntity Transformation d'un DTO en entité d'infrastructure
+   * @param api Méthode de masse et méthode unitaire de l'API
+   * @param callOptions Concurrence, taille des paquets, résilience et signal d'annulation
+   * @returns Rapport par élément
+   */
+  private runBatch<TInput, TEntity, TResult>(
+    operation: BatchOperation,
+    items: TInput[],
+    toEntity: (input: TInput) => TEntity,
+    api: {
+      bulk?: (
+        entities: TEntity[],
+        context?: ApiCallContext
+      ) => Promise<TResult[]>;
+      single?: (entity: TEntity, context?: ApiCallContext) => Promise<TResult>;
+    },
+    callOptions: BatchCallOptions = {}
+  ): Promise<BatchReport<TInput, TResult>> {
+    const { bulk, single } = api;
+    const resilience = this.resolveResilience(operation, callOptions);
+    const concurrency = callOptions.concurrency ?? 5;
+    const errorContext = { entityName: this.entityName, operation };
+
+    // Le lot lui-même n'est ni relancé ni limité dans le temps
+    const batchOptions: CrudCallOptions = {
+      retry: { maxAttempts: 1 },
+      timeoutMs: 0,
+      onAttempt: callOptions.onAttempt,
+      signal: callOptions.signal,
+    };
+
+    return this.run(
+      operation,
+      items,
+      async (inputs, apiContext) => {
+        if (!bulk && !single) {
+          throw new NotImplementedError(
+            `${operation} API not implemented for ${this.entityName}`
+          );
+        }
+
+        const outcomes: BatchItemResult<TInput, TResult>[] = [];
+        const indexed = inputs.map((input, index) => ({ input, index }));
+
+        // Requête unitaire du lot, relancée selon la politique de l'opération
+        const request = <T>(task: (context: ApiCallContext) => Promise<T>) =>
+          withRetry((_attempt, signal) => task({ signal }), {
+            retry: resilience.retry,
+            timeoutMs: resilience.timeoutMs,
+            signal: apiContext.signal,
+          });
+
+        // Un échec est consigné pour les éléments concernés, une annulation interrompt le lot
+        const reject = (group: typeof indexed, error: unknown) => {
+          const crudError = toCrudError(error, errorContext);
+          if (crudError.kind === "cancelled") {
+            throw crudError;
+          }
+          group.forEach(({ input, index }) =>
+            outcomes.push({
+              index,
+              input,
+              status: "rejected",
+              error: crudError,
+            })
+          );
+        };
+
+        if (bulk) {
+          await runWithConcurrency(
+            chunk(indexed, callOptions.chunkSize),
+            concurrency,
+            async (group) => {
+              try {
+                const entities = group.map(({ input }) => toEntity(input));
+                const results = await request((context) =>
+                  bulk(entities, context)
+                );
+                // Un élément absent d'une réponse incomplète est consigné introuvable
+                const matches = matchBulkResults<TResult>(entities, results);
+                group.forEach(({ input, index }, position) => {
+                  const match = matches[position];
+                  outcomes.push(
+                    match.found
+                      ? {
+                          index,
+                          input,
+                          status: "fulfilled",
+                          result: match.result,
+                        }
+                      : {
+                          index,
+                          input,
+                          status: "rejected",
+                          error: new NotFoundError(
+                            `${operation} API returned no result for this item`,
+                            { ...errorContext, details: entities[position] }
+                          ),
+                        }
+                  );
+                });
+              } catch (error) {
+                reject(group, error);
+              }
+            },
+            apiContext.signal
+          );
+        } else if (single) {
+          await runWithConcurrency(
+            indexed,
+            concurrency,
+            async (item) => {
+              try {
+                const result = await request((context) =>
+                  single(toEntity(item.input), context)
+                );
+                outcomes.push({ ...item, status: "fulfilled", result });
+              } catch (error) {
+                reject([item], error);
+              }
+            },
+            apiContext.signal
+          );
+        }
+
+        return createBatchReport(outcomes);
+      },
+      batchOptions
+    );
+  }
 
-      // Log de l'opération pour traçabilité
-      console.debug(`Deleting ${this.entityName}:`, entityData);
+  /**
+   * Opération Create Many - Création d'un lot d'entités
+   *
+   * @param data DTO des entités à créer
+   * @param callOptions Concurrence, taille des paquets, résilience et signal d'annulation
+   * @returns Rapport par élément
+   */
+  async createMany(
+    data: TCreateDTO[],
+    callOptions?: BatchCallOptions
+  ): Promise<BatchReport<TCreateDTO, TCreateResult>> {
+    return this.runBatch(
+      "createMany",
+      data,
+      (input) =>
+        this.transformers?.createDtoToEntity
+          ? this.transformers.createDtoToEntity(input)
+          : (input as unknown as TCreateEntity),
+      { bulk: this.api.createMany, single: this.api.create },
+      callOptions
+    );
+  }
 
-      // Appel à l'API - Interaction avec la source de données
-      const result = await this.api.delete(entityData);
+  /**
+   * Opération Update Many - Mise à jour d'un lot d'entités
+   *
+   * @param data DTO des entités à mettre à jour
+   * @param callOptions Concurrence, taille des paquets, résilience et signal d'annulation
+   * @returns Rapport par élément
+   */
+  async updateMany(
+    data: TUpdateDTO[],
+    callOptions?: BatchCallOptions
+  ): Promise<BatchReport<TUpdateDTO, TUpdateResult>> {
+    return this.runBatch(
+      "updateMany",
+      data,
+      (input) =>
+        this.transformers?.updateDtoToEntity
+          ? this.transformers.updateDtoToEntity(input)
+          : (input as unknown as TUpdateEntity),
+      { bulk: this.api.updateMany, single: this.api.update },
+      callOptions
+    );
+  }
 
-      return result;
-    } catch (error) {
-      // Gestion des erreurs avec contexte enrichi
-      console.error(`Error deleting ${this.entityName}:`, error);
-      throw error;
-    }
+  /**
+   * Opération Delete Many - Suppression d'un lot d'entités
+   *
+   * @param data DTO des entités à supprimer
+   * @param callOptions Concurrence, taille des paquets, résilience et signal d'annulation
+   * @returns Rapport par élément
+   */
+  async deleteMany(
+    data: TDeleteDTO[],
+    callOptions?: BatchCallOptions
+  ): Promise<BatchReport<TDeleteDTO, TDeleteResult>> {
+    return this.runBatch(
+      "deleteMany",
+      data,
+      (input) =>
+        this.transformers?.deleteDtoToEntity
+          ? this.transformers.deleteDtoToEntity(input)
+          : (input as unknown as TDeleteEntity),
+      { bulk: this.api.deleteMany, single: this.api.delete },
+      callOptions
+    );
   }
 
   /**
@@ -214,77 +708,196 @@ export class CrudService<
    *
    * @param id Identifiant de l'entité à récupérer
    * @param params Paramètres additionnels (inclusions, filtres, etc.)
+   * @param callOptions Surcharges de résilience et signal d'annulation propres à l'appel
    * @returns Entité récupérée
    */
   async getOne(
     id: string,
-    params?: Omit<TReadParams, "pagination">
+    params?: Omit<TReadParams, "pagination">,
+    callOptions?: CrudCallOptions
   ): Promise<TReadOneResult> {
-    if (!this.api.getOne) {
-      throw new Error(`GetOne API not implemented for ${this.entityName}`);
+    if (this.options.batchGetOne) {
+      return this.loadOne(id, params, callOptions);
     }
 
-    try {
-      // Transformation des paramètres via le transformateur spécifique
-      let queryParams = params;
-      if (params && this.transformers?.readParamsToQuery) {
-        const transformedParams = this.transformers.readParamsToQuery({
-          ...params,
-          id,
-        } as unknown as TReadParams);
-
-        queryParams = transformedParams as Omit<TReadParams, "pagination">;
-      }
+    return this.run(
+      "getOne",
+      { id, params },
+      async (input, apiContext) => {
+        if (!this.api.getOne) {
+          throw new NotImplementedError(
+            `GetOne API not implemented for ${this.entityName}`
+          );
+        }
+
+        // Transformation des paramètres via le transformateur spécifique
+        let queryParams = input.params;
+        if (input.params && this.transformers?.readParamsToQuery) {
+          const transformedParams = this.transformers.readParamsToQuery({
+            ...input.params,
+            id: input.id,
+          } as unknown as TReadParams);
+
+          queryParams = transformedParams as Omit<TReadParams, "pagination">;
+        }
+
+        // Appel à l'API - Interaction avec la source de données
+        return this.api.getOne(input.id, queryParams, apiContext);
+      },
+      callOptions
+    );
+  }
 
-      // Log de l'opération pour traçabilité
-      console.debug(`Fetching ${this.entityName} with ID:`, id, queryParams);
+  /**
+   * Lecture unitaire regroupée avec les autres appels getOne de la même fenêtre
+   * La résilience est celle de la lecture groupée ; le signal n'annule que l'attente de l'appelant
+   */
+  private async loadOne(
+    id: string,
+    params?: Omit<TReadParams, "pagination">,
+    callOptions: CrudCallOptions = {}
+  ): Promise<TReadOneResult> {
+    // Seuls les appels de mêmes paramètres peuvent partager une lecture
+    const key = hashQueryKey([params ?? null]);
+    let loader = this.getOneLoaders.get(key);
+    if (!loader) {
+      const batching = this.options.batchGetOne;
+      loader = createBatchLoader(
+        (ids) => this.loadByIds(ids, params),
+        typeof batching === "object" ? batching : {}
+      );
+      this.getOneLoaders.set(key, loader);
 
-      // Appel à l'API - Interaction avec la source de données
-      const result = await this.api.getOne(id, queryParams);
+      const oldest = this.getOneLoaders.keys().next().value;
+      if (this.getOneLoaders.size > MAX_GET_ONE_LOADERS && oldest) {
+        this.getOneLoaders.delete(oldest);
+      }
+    }
 
-      return result;
+    try {
+      return await loader.load(id, callOptions.signal);
     } catch (error) {
-      // Gestion des erreurs avec contexte enrichi
-      console.error(`Error fetching ${this.entityName} with ID ${id}:`, error);
-      throw error;
+      throw toCrudError(error, {
+        entityName: this.entityName,
+        operation: "getOne",
+      });
+    } finally {
+      if (loader.size === 0 && this.getOneLoaders.get(key) === loader) {
+        this.getOneLoaders.delete(key);
+      }
     }
   }
 
+  /**
+   * Charge un ensemble d'entités par identifiants, dans l'ordre demandé
+   * La lecture groupée est une opération à part entière (`getByIds`), dont les middlewares
+   * et la télémétrie reçoivent les identifiants demandés
+   * Un identifiant absent du résultat produit une NotFoundError pour son seul appelant
+   */
+  private async loadByIds(
+    ids: string[],
+    params?: Omit<TReadParams, "pagination">
+  ): Promise<Array<TReadOneResult | Error>> {
+    const entities = await this.run(
+      "getByIds",
+      { ids, params },
+      async (input, apiContext) => {
+        // Transformation des paramètres, comme pour une lecture getOne
+        if (this.api.getByIds) {
+          const queryParams =
+            input.params && this.transformers?.readParamsToQuery
+              ? (this.transformers.readParamsToQuery(
+                  input.params as TReadParams
+                ) as Omit<TReadParams, "pagination">)
+              : input.params;
+          return this.api.getByIds(input.ids, queryParams, apiContext);
+        }
+        if (!this.api.getMany) {
+          throw new NotImplementedError(
+            `GetByIds API not implemented for ${this.entityName}`
+          );
+        }
+
+        // À défaut de lecture groupée, lecture de la liste filtrée sur les identifiants
+        const readParams = (input.params ?? {}) as ReadOptions;
+        let query = {
+          ...readParams,
+          filter: { ...readParams.filter, id: input.ids },
+          pagination: { limit: input.ids.length },
+        } as unknown as TReadParams;
+        if (this.transformers?.readParamsToQuery) {
+          query = this.transformers.readParamsToQuery(query) as TReadParams;
+        }
+        const result = await this.api.getMany(query, apiContext);
+        return (result as unknown as ReadManyResult<TReadOneResult>).data;
+      }
+    );
+
+    const byId = new Map(
+      entities.map((entity) => [String((entity as EntityBase).id), entity])
+    );
+    return ids.map(
+      (id) =>
+        byId.get(id) ??
+        new NotFoundError(`${this.entityName} with ID ${id} not found`, {
+          entityName: this.entityName,
+          operation: "getOne",
+        })
+    );
+  }
+
   /**
    * Opération Read Many - Lecture de plusieurs entités avec filtrage, pagination, etc.
    * Implémente la topologie des requêtes pour une lecture flexible et performante
    *
    * @param params Paramètres de lecture (filtrage, pagination, tri)
+   * @param callOptions Surcharges de résilience et signal d'annulation propres à l'appel
    * @returns Liste d'entités et métadonnées (pagination, total, etc.)
    */
-  async getMany(params?: TReadParams): Promise<TReadManyResult> {
-    if (!this.api.getMany) {
-      throw new Error(`GetMany API not implemented for ${this.entityName}`);
-    }
-
-    try {
-      // Transformation des paramètres via le transformateur spécifique
-      let queryParams = params;
-      if (params && this.transformers?.readParamsToQuery) {
-        const transformedParams = this.transformers.readParamsToQuery(params);
-        queryParams = transformedParams as TReadParams;
-      }
+  async getMany(
+    params?: TReadParams,
+    callOptions?: CrudCallOptions
+  ): Promise<TReadManyResult> {
+    return this.run(
+      "getMany",
+      params,
+      async (input, apiContext) => {
+        if (!this.api.getMany) {
+          throw new NotImplementedError(
+            `GetMany API not implemented for ${this.entityName}`
+          );
+        }
+
+        // Transformation des paramètres via le transformateur spécifique
+        let queryParams = input;
+        if (input && this.transformers?.readParamsToQuery) {
+          const transformedParams = this.transformers.readParamsToQuery(input);
+          queryParams = transformedParams as TReadParams;
+        }
+
+        // Appel à l'API - Interaction avec la source de données
+        return this.api.getMany(queryParams, apiContext);
+      },
+      callOptions
+    );
+  }
 
-      // Log de l'opération pour traçabilité
-      console.debug(
-        `Fetching ${this.entityName} list with params:`,
-        queryParams
+  /**
+   * Abonnement temps réel aux créations, mises à jour et suppressions de l'entité
+   * Les entités des événements ont la forme des résultats de getOne
+   *
+   * @param listener Observateur des événements
+   * @returns Fonction de désabonnement
+   * @throws NotImplementedError si l'API ne propose pas d'abonnement
+   */
+  subscribe(listener: EntityEventListener<TReadOneResult>): () => void {
+    if (!this.api.subscribe) {
+      throw new NotImplementedError(
+        `Subscribe API not implemented for ${this.entityName}`,
+        { entityName: this.entityName }
       );
-
-      // Appel à l'API - Interaction avec la source de données
-      const result = await this.api.getMany(queryParams);
-
-      return result;
-    } catch (error) {
-      // Gestion des erreurs avec contexte enrichi
-      console.error(`Error fetching ${this.entityName} list:`, error);
-      throw error;
     }
+    return this.api.subscribe(listener);
   }
 }
 
@@ -299,5 +912,7 @@ export interface ReadManyResult<T> {
     page?: number;
     limit?: number;
     pages?: number;
+    nextCursor?: string | null; // Curseur de la page suivante (null : dernière page)
+    previousCursor?: string | null; // Curseur de la page précédente (null : première page)
   };
 }
@@ -0,0 +1,308 @@
+/**
+ * Événements temps réel des entités
+ * Contrat indépendant du transport (WebSocket, SSE, bus en mémoire) et bus d'événements
+ * en processus, permettant d'éprouver les abonnements sans serveur
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import {
+  MutationOperation,
+  getMutatedId,
+  selectReadQueries,
+} from "./invalidation";
+import { defaultOptimisticUpdates } from "./optimistic";
+import { QueryCache, QueryKey } from "./queryCache";
+
+/**
+ * Nature d'un événement
+ */
+export type EntityEventType = "created" | "updated" | "deleted";
+
+/**
+ * Événement émis par la source de données après une écriture
+ */
+export interface EntityEvent<TEntity = unknown> {
+  type: EntityEventType;
+  entityName: string;
+  /** Entité concernée, dans la forme des lectures ; au moins son `id` pour une suppression */
+  entity: TEntity;
+}
+
+/**
+ * Observateur d'événements
+ */
+export type EntityEventListener<TEntity = unknown> = (
+  event: EntityEvent<TEntity>
+) => void;
+
+/**
+ * Abonnement aux événements d'une entité
+ *
+ * @returns Fonction de désabonnement
+ */
+export type EntityEventSubscriber<TEntity = unknown> = (
+  listener: EntityEventListener<TEntity>
+) => () => void;
+
+/**
+ * Mutation correspondant à chaque nature d'événement
+ */
+const eventOperations: Record<EntityEventType, MutationOperation> = {
+  created: "create",
+  updated: "update",
+  deleted: "delete",
+};
+
+/**
+ * Égalité des champs d'un élément de liste et de l'entité reçue (structurelle pour les objets)
+ */
+function isSameField(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Remplace par l'entité créée l'élément sans identifiant qui la préfigure (création
+ * optimiste en attente de confirmation), plutôt que de l'ajouter une seconde fois
+ *
+ * @returns Liste mise à jour, undefined si aucun élément ne correspond
+ */
+function reconcileOptimisticCreate(
+  data: unknown,
+  entity: unknown
+): unknown | undefined {
+  const items = (data as { data?: unknown }).data;
+  if (
+    !Array.isArray(items) ||
+    entity === null ||
+    typeof entity !== "object" ||
+    getMutatedId(entity, undefined) === undefined
+  ) {
+    return undefined;
+  }
+
+  const index = items.findIndex(
+    (item) =>
+      item !== null &&
+      typeof item === "object" &&
+      getMutatedId(item, undefined) === undefined &&
+      Object.entries(item).every(([field, value]) =>
+        isSameField((entity as Record<string, unknown>)[field], value)
+      )
+  );
+  if (index < 0) {
+    return undefined;
+  }
+
+  const reconciled = [...items];
+  reconciled[index] = entity;
+  return { ...(data as object), data: reconciled };
+}
+
+/**
+ * Applique un événement à un résultat de lecture
+ * Les listes de la forme ReadManyResult suivent les règles des prévisions optimistes
+ * standard, une création remplaçant sa prévision optimiste encore présente ; une entité
+ * lue par getOne est fusionnée, ou retirée (null) si elle est supprimée
+ *
+ * @param operation Lecture ayant produit le résultat
+ * @param data Résultat de lecture courant
+ * @param event Événement reçu
+ * @returns Résultat mis à jour
+ */
+export function applyEntityEvent(
+  operation: "getOne" | "getMany",
+  data: unknown,
+  event: EntityEvent
+): unknown {
+  if (data === null || data === undefined) {
+    return data;
+  }
+
+  if (operation === "getOne") {
+    const id = getMutatedId(event.entity, undefined);
+    if (id === undefined || getMutatedId(data, undefined) !== id) {
+      return data;
+    }
+    if (event.type === "deleted") {
+      return null;
+    }
+  }
+
+  if (operation === "getMany" && event.type === "created") {
+    const reconciled = reconcileOptimisticCreate(data, event.entity);
+    if (reconciled !== undefined) {
+      return reconciled;
+    }
+  }
+
+  return defaultOptimisticUpdates[eventOperations[event.type]]
+    .filter((update) => update.operation === operation)
+    .reduce((current, update) => update.update(current, event.entity), data);
+}
+
+/**
+ * Abonnements temps réel partagés, par cache et par entité
+ */
+const cacheSubscriptions = new WeakMap<
+  QueryCache,
+  Map<string, { count: number; unsubscribe: () => void }>
+>();
+
+/**
+ * Indique si une liste en cache est restreinte (filtre, recherche, tri ou pagination)
+ * La place d'une nouvelle entité n'y est pas connue sans relecture
+ */
+function isConstrainedList(key: QueryKey): boolean {
+  const params = key[2] as Record<string, unknown> | null | undefined;
+  if (!params || typeof params !== "object") {
+    return false;
+  }
+  return ["filter", "search", "sort", "pagination"].some((option) => {
+    const value = params[option];
+    return (
+      value !== undefined &&
+      value !== null &&
+      value !== "" &&
+      !(typeof value === "object" && Object.keys(value).length === 0)
+    );
+  });
+}
+
+/**
+ * Applique un événement aux lectures en cache d'une entité
+ * - getOne : fusion de l'entité, éviction si elle est supprimée (abonnés prévenus)
+ * - getMany : fusion ou retrait par `id` ; une création est ajoutée aux listes complètes,
+ *   les listes restreintes sont relues
+ *
+ * @param queryCache Cache des lectures
+ * @param entityName Entité des lectures
+ * @param event Événement reçu
+ */
+export function applyEntityEventToCache(
+  queryCache: QueryCache,
+  entityName: string,
+  event: EntityEvent
+): void {
+  const id = getMutatedId(event.entity, undefined);
+  if (event.type === "deleted" && id !== undefined) {
+    queryCache.removeQueries(selectReadQueries(entityName, "getOne", id));
+  } else {
+    queryCache.updateQueries(
+      selectReadQueries(entityName, "getOne"),
+      (cached) => applyEntityEvent("getOne", cached, event)
+    );
+  }
+
+  const lists = selectReadQueries(entityName, "getMany");
+  if (event.type === "created") {
+    queryCache.invalidateQueries((key) => lists(key) && isConstrainedList(key));
+    queryCache.updateQueries(
+      (key) => lists(key) && !isConstrainedList(key),
+      (cached) => applyEntityEvent("getMany", cached, event)
+    );
+  } else {
+    queryCache.updateQueries(lists, (cached) =>
+      applyEntityEvent("getMany", cached, event)
+    );
+  }
+}
+
+/**
+ * Abonne les lectures en cache d'une entité aux événements temps réel
+ * Toutes les instances de hook partageant un cache partagent un seul abonnement :
+ * chaque événement est appliqué une fois, quelle que soit sa diffusion par le transport
+ * (objet distinct par observateur après désérialisation, par exemple)
+ *
+ * @param queryCache Cache des lectures
+ * @param entityName Entité des lectures
+ * @param subscribe Abonnement du transport, utilisé par le premier abonné
+ * @returns Fonction de désabonnement ; l'abonnement partagé est fermé avec le dernier abonné
+ */
+export function subscribeCacheToEvents(
+  queryCache: QueryCache,
+  entityName: string,
+  subscribe: EntityEventSubscriber
+): () => void {
+  const subscriptions = cacheSubscriptions.get(queryCache) ?? new Map();
+  cacheSubscriptions.set(queryCache, subscriptions);
+
+  let subscription = subscriptions.get(entityName);
+  if (!subscription) {
+    subscription = {
+      count: 0,
+      unsubscribe: subscribe((event) =>
+        applyEntityEventToCache(queryCache, entityName, event)
+      ),
+    };
+    subscriptions.set(entityName, subscription);
+  }
+  subscription.count++;
+
+  const shared = subscription;
+  let active = true;
+  return () => {
+    if (!active) {
+      return;
+    }
+    active = false;
+    shared.count--;
+    if (shared.count === 0 && subscriptions.get(entityName) === shared) {
+      subscriptions.delete(entityName);
+      shared.unsubscribe();
+    }
+  };
+}
+
+/**
+ * Bus d'événements en processus
+ * Les observateurs sont notifiés de manière synchrone, dans l'ordre d'abonnement
+ */
+export class EntityEventBus {
+  private readonly listeners = new Map<string, Set<EntityEventListener>>();
+
+  /**
+   * Diffuse un événement aux observateurs de son entité
+   * L'erreur d'un observateur n'interrompt pas la diffusion
+   */
+  publish<TEntity>(event: EntityEvent<TEntity>): void {
+    this.listeners.get(event.entityName)?.forEach((listener) => {
+      try {
+        listener(event);
+      } catch {
+        // Les observateurs sont isolés les uns des autres
+      }
+    });
+  }
+
+  /**
+   * Abonne un observateur aux événements d'une entité
+   *
+   * @returns Fonction de désabonnement
+   */
+  subscribe<TEntity>(
+    entityName: string,
+    listener: EntityEventListener<TEntity>
+  ): () => void {
+    const listeners = this.listeners.get(entityName) ?? new Set();
+    listeners.add(listener as EntityEventListener);
+    this.listeners.set(entityName, listeners);
+
+    return () => {
+      listeners.delete(listener as EntityEventListener);
+      if (
+        listeners.size === 0 &&
+        this.listeners.get(entityName) === listeners
+      ) {
+        this.listeners.delete(entityName);
+      }
+    };
+  }
+
+  /**
+   * Abonnement restreint à une entité, utilisable comme `subscribe` d'une API CRUD
+   */
+  channel<TEntity>(entityName: string): EntityEventSubscriber<TEntity> {
+    return (listener) => this.subscribe(entityName, listener);
+  }
+}
@@ -0,0 +1,487 @@
+/**
+ * Langage de filtre typé pour ReadOptions.filter
+ *
+ * Un filtre associe des chemins de champs (notation pointée pour les champs imbriqués)
+ * à une valeur (égalité), une liste de valeurs (appartenance) ou des opérateurs,
+ * et se compose avec `and`, `or` et `not`. Les chemins et les types de valeurs sont
+ * dérivés du type de l'entité et vérifiés à la compilation.
+ *
+ * Les adaptateurs consomment l'arbre normalisé (`toFilterNode`) ou sa sérialisation
+ * en paramètres de requête (`serializeFilter`, réciproque `parseFilter`).
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+/**
+ * Valeurs terminales d'un filtre
+ */
+type FilterPrimitive = string | number | boolean | bigint | Date | null;
+
+/**
+ * Décrément de profondeur des chemins imbriqués
+ */
+export type PreviousDepth = [never, 0, 1, 2, 3];
+
+/**
+ * Chemins filtrables d'une entité, jusqu'à quatre niveaux d'imbrication
+ * Les tableaux et les dates sont des valeurs terminales
+ */
+export type FilterPath<T, TDepth extends number = 3> = [TDepth] extends [never]
+  ? never
+  : T extends object
+  ? {
+      [K in keyof T & string]: NonNullable<T[K]> extends
+        | FilterPrimitive
+        | readonly unknown[]
+        ? K
+        : K | `${K}.${FilterPath<NonNullable<T[K]>, PreviousDepth[TDepth]>}`;
+    }[keyof T & string]
+  : never;
+
+/**
+ * Type de la valeur désignée par un chemin
+ */
+export type FilterPathValue<
+  T,
+  TPath extends string
+> = TPath extends `${infer K}.${infer Rest}`
+  ? K extends keyof T
+    ? FilterPathValue<NonNullable<T[K]>, Rest>
+    : never
+  : TPath extends keyof T
+  ? T[TPath]
+  : never;
+
+/**
+ * Valeurs ordonnées, seules admises par les comparaisons
+ */
+type Ordered<TValue> = NonNullable<TValue> extends
+  | number
+  | string
+  | bigint
+  | Date
+  ? NonNullable<TValue>
+  : never;
+
+/**
+ * Valeurs textuelles, seules admises par `contains` et `startsWith`
+ */
+type Textual<TValue> = NonNullable<TValue> extends string ? string : never;
+
+/**
+ * Opérateurs applicables à un champ
+ * Plusieurs opérateurs sur un même champ se combinent par un ET
+ */
+export interface FilterOperators<TValue> {
+  eq?: TValue;
+  ne?: TValue;
+  in?: readonly TValue[];
+  lt?: Ordered<TValue>;
+  lte?: Ordered<TValue>;
+  gt?: Ordered<TValue>;
+  gte?: Ordered<TValue>;
+  /** Intervalle fermé [min, max] */
+  between?: readonly [Ordered<TValue>, Ordered<TValue>];
+  /** Sous-chaîne, sensible à la casse */
+  contains?: Textual<TValue>;
+  startsWith?: Textual<TValue>;
+  /** true : valeur nulle ou absente ; false : valeur présente */
+  isNull?: boolean;
+}
+
+/**
+ * Condition sur un champ : égalité, appartenance à une liste ou opérateurs
+ */
+export type FieldFilter<TValue> =
+  | TValue
+  | readonly TValue[]
+  | FilterOperators<TValue>;
+
+/**
+ * Filtre typé d'une entité
+ * Les conditions d'un même objet se combinent par un ET ; `and`, `or` et `not`
+ * sont réservés à la composition et ne peuvent désigner un champ
+ */
+export type Filter<T> = {
+  [P in FilterPath<T>]?: FieldFilter<FilterPathValue<T, P>>;
+} & {
+  and?: Filter<T>[];
+  or?: Filter<T>[];
+  not?: Filter<T>;
+};
+
+/**
+ * Opérateurs du langage de filtre
+ */
+export type FilterOperator = keyof FilterOperators<unknown>;
+
+const FILTER_OPERATORS: readonly FilterOperator[] = [
+  "eq",
+  "ne",
+  "in",
+  "lt",
+  "lte",
+  "gt",
+  "gte",
+  "between",
+  "contains",
+  "startsWith",
+  "isNull",
+];
+
+/**
+ * Condition élémentaire sur un champ (chemin en notation pointée)
+ * La valeur de `in` et `between` est un tableau
+ */
+export interface FilterCondition {
+  type: "condition";
+  field: string;
+  operator: FilterOperator;
+  value: unknown;
+}
+
+/**
+ * Arbre normalisé d'un filtre, consommé par les adaptateurs
+ */
+export type FilterNode =
+  | { type: "and"; nodes: FilterNode[] }
+  | { type: "or"; nodes: FilterNode[] }
+  | { type: "not"; node: FilterNode }
+  | FilterCondition;
+
+/**
+ * Vérifie qu'une valeur est un objet simple (ni tableau, ni date)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Vérifie qu'une valeur de filtre est un ensemble d'opérateurs
+ */
+export function isFilterOperators(
+  value: unknown
+): value is FilterOperators<unknown> {
+  return (
+    isPlainObject(value) &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every((key) =>
+      FILTER_OPERATORS.includes(key as FilterOperator)
+    )
+  );
+}
+
+/**
+ * Conditions d'un champ, ses objets imbriqués étant parcourus en notation pointée
+ */
+function fieldNodes(field: string, value: unknown): FilterCondition[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return [{ type: "condition", field, operator: "in", value }];
+  }
+  if (isFilterOperators(value)) {
+    return (Object.entries(value) as [FilterOperator, unknown][])
+      .filter(([, operand]) => operand !== undefined)
+      .map(([operator, operand]) => ({
+        type: "condition" as const,
+        field,
+        operator,
+        value: operand,
+      }));
+  }
+  if (isPlainObject(value)) {
+    return Object.entries(value).flatMap(([key, child]) =>
+      fieldNodes(`${field}.${key}`, child)
+    );
+  }
+  return [{ type: "condition", field, operator: "eq", value }];
+}
+
+/**
+ * Normalise un filtre en arbre
+ * Les filtres historiques (égalité, listes, objets imbriqués) restent acceptés
+ *
+ * @param filter Filtre typé ou dictionnaire de valeurs
+ * @returns Arbre du filtre, `and` vide si aucun critère
+ */
+export function toFilterNode(
+  filter: Filter<any> | Record<string, unknown> | undefined
+): FilterNode {
+  const nodes = Object.entries(filter ?? {}).flatMap(
+    ([key, value]): FilterNode[] => {
+      if (value === undefined) {
+        return [];
+      }
+      if (key === "and" || key === "or") {
+        return [
+          {
+            type: key,
+            nodes: (value as Record<string, unknown>[]).map(toFilterNode),
+          },
+        ];
+      }
+      if (key === "not") {
+        return [
+          { type: "not", node: toFilterNode(value as Record<string, unknown>) },
+        ];
+      }
+      return fieldNodes(key, value);
+    }
+  );
+
+  return nodes.length === 1 && nodes[0].type !== "condition"
+    ? nodes[0]
+    : { type: "and", nodes };
+}
+
+/**
+ * Représentation textuelle d'une valeur de filtre
+ */
+function formatFilterValue(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value === null ? "null" : String(value);
+}
+
+/**
+ * Ajoute une condition aux paramètres de requête
+ * Égalité et appartenance gardent la forme historique `filter[champ]=valeur`
+ */
+function appendCondition(
+  query: URLSearchParams,
+  prefix: string,
+  node: FilterCondition
+): void {
+  const key = `${prefix}${node.field
+    .split(".")
+    .map((segment) => `[${segment}]`)
+    .join("")}`;
+  const operatorKey =
+    node.operator === "eq" || node.operator === "in"
+      ? key
+      : `${key}[${node.operator}]`;
+  const values = Array.isArray(node.value) ? node.value : [node.value];
+
+  values.forEach((value) =>
+    query.append(operatorKey, formatFilterValue(value))
+  );
+}
+
+/**
+ * Ajoute un filtre aux paramètres de requête en suivant sa structure,
+ * les branches de `and` et `or` étant indexées
+ */
+function appendFilter(
+  query: URLSearchParams,
+  prefix: string,
+  filter: Record<string, unknown>
+): void {
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value === undefined) {
+      return;
+    }
+    if (key === "and" || key === "or") {
+      (value as Record<string, unknown>[]).forEach((child, index) =>
+        appendFilter(query, `${prefix}[${key}][${index}]`, child)
+      );
+      return;
+    }
+    if (key === "not") {
+      appendFilter(query, `${prefix}[not]`, value as Record<string, unknown>);
+      return;
+    }
+    fieldNodes(key, value).forEach((node) =>
+      appendCondition(query, prefix, node)
+    );
+  });
+}
+
+/**
+ * Sérialise un filtre en paramètres de requête, en notation crochets
+ *
+ * - égalité : `filter[status]=active`, champs imbriqués `filter[owner][name]=x`
+ * - appartenance : `filter[id]=1&filter[id]=2`
+ * - opérateurs : `filter[age][gte]=18`, `filter[age][between]=18&filter[age][between]=30`
+ * - composition : `filter[or][0][status]=a&filter[or][1][status]=b`, `filter[not][status]=a`
+ * - dates en ISO 8601, `null` littéral
+ *
+ * @param filter Filtre typé ou dictionnaire de valeurs
+ * @param query Paramètres complétés (par défaut : nouveaux paramètres)
+ * @param prefix Préfixe des clés (par défaut : `filter`)
+ * @returns Paramètres de requête
+ */
+export function serializeFilter(
+  filter: Filter<any> | Record<string, unknown> | undefined,
+  query: URLSearchParams = new URLSearchParams(),
+  prefix = "filter"
+): URLSearchParams {
+  appendFilter(query, prefix, (filter ?? {}) as Record<string, unknown>);
+  return query;
+}
+
+/**
+ * Interprétation d'une valeur textuelle de filtre
+ */
+export type FilterValueParser = (
+  value: string,
+  field: string,
+  operator: FilterOperator
+) => unknown;
+
+/**
+ * Interprétation par défaut des valeurs de filtre
+ * `null`, `true` et `false` littéraux sont convertis ; les nombres et les dates,
+ * indiscernables d'identifiants textuels, restent des chaînes
+ */
+export function parseFilterValue(value: string): unknown {
+  if (value === "null") {
+    return null;
+  }
+  if (value === "true" || value === "false") {
+    return value === "true";
+  }
+  return value;
+}
+
+/**
+ * Valeur de paramètre associée à ses segments de clé (`[a][b]` → `["a", "b"]`)
+ */
+type FilterEntry = [segments: string[], value: string];
+
+/**
+ * Vérifie qu'une entrée désigne une branche de composition (`and`, `or`, `not`)
+ */
+function isCompositeEntry([segments]: FilterEntry): boolean {
+  const [head, index] = segments;
+  return (
+    ((head === "and" || head === "or") &&
+      segments.length > 2 &&
+      /^\d+$/.test(index)) ||
+    (head === "not" && segments.length > 1)
+  );
+}
+
+/**
+ * Reconstitue la condition d'un champ à partir de ses valeurs
+ * Les valeurs sans opérateur sont une égalité, ou une appartenance si elles sont répétées
+ */
+function readField(
+  field: string,
+  entries: FilterEntry[],
+  parseValue: FilterValueParser
+): unknown {
+  const raws = new Map<FilterOperator | undefined, string[]>();
+  entries.forEach(([[operator], value]) => {
+    const key = operator as FilterOperator | undefined;
+    raws.set(key, [...(raws.get(key) ?? []), value]);
+  });
+
+  const plain = raws.get(undefined) ?? [];
+  raws.delete(undefined);
+  const legacy: [FilterOperator, string[]][] =
+    plain.length === 0 ? [] : [[plain.length === 1 ? "eq" : "in", plain]];
+  const operators = [...legacy, ...raws] as [FilterOperator, string[]][];
+  const values = operators.map(([operator, operands]): [string, unknown] => [
+    operator,
+    operator === "in" || operator === "between"
+      ? operands.map((operand) => parseValue(operand, field, operator))
+      : parseValue(operands[operands.length - 1], field, operator),
+  ]);
+
+  // Une égalité ou une appartenance seule garde la forme historique
+  if (raws.size === 0) {
+    return values[0][1];
+  }
+  return Object.fromEntries(values);
+}
+
+/**
+ * Reconstitue un filtre à partir de ses entrées, dans leur ordre d'apparition
+ */
+function readFilter(
+  entries: FilterEntry[],
+  parseValue: FilterValueParser
+): Record<string, unknown> {
+  const groups = new Map<string, FilterEntry[]>();
+  entries.forEach((entry) => {
+    const [segments, value] = entry;
+    const last = segments[segments.length - 1];
+    const hasOperator =
+      segments.length > 1 && FILTER_OPERATORS.includes(last as FilterOperator);
+    const [key, rest] = isCompositeEntry(entry)
+      ? [segments[0], segments.slice(1)]
+      : [
+          (hasOperator ? segments.slice(0, -1) : segments).join("."),
+          hasOperator ? [last] : [],
+        ];
+    groups.set(key, [...(groups.get(key) ?? []), [rest, value]]);
+  });
+
+  const filter: Record<string, unknown> = {};
+  groups.forEach((group, key) => {
+    if (key === "not" && group.every(([rest]) => rest.length > 0)) {
+      filter.not = readFilter(group, parseValue);
+      return;
+    }
+    if ((key === "and" || key === "or") && group.every(isBranchEntry)) {
+      const branches = new Map<number, FilterEntry[]>();
+      group.forEach(([[index, ...rest], value]) => {
+        const position = Number(index);
+        branches.set(position, [
+          ...(branches.get(position) ?? []),
+          [rest, value],
+        ]);
+      });
+      filter[key] = [...branches.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, branch]) => readFilter(branch, parseValue));
+      return;
+    }
+    filter[key] = readField(key, group, parseValue);
+  });
+  return filter;
+}
+
+/**
+ * Vérifie qu'une entrée d'une branche `and` / `or` commence par son index
+ */
+function isBranchEntry([[index]]: FilterEntry): boolean {
+  return /^\d+$/.test(index ?? "");
+}
+
+/**
+ * Reconstitue un filtre à partir de paramètres de requête produits par `serializeFilter`
+ *
+ * Les champs imbriqués sont restitués en notation pointée (`{ "owner.name": "x" }`) ;
+ * une appartenance à une seule valeur est restituée comme une égalité, équivalente.
+ *
+ * @param query Paramètres de requête
+ * @param prefix Préfixe des clés (par défaut : `filter`)
+ * @param parseValue Interprétation des valeurs (par défaut : `parseFilterValue`)
+ * @returns Filtre, vide si aucun paramètre ne le concerne
+ */
+export function parseFilter(
+  query: URLSearchParams,
+  prefix = "filter",
+  parseValue: FilterValueParser = parseFilterValue
+): Record<string, unknown> {
+  const entries: FilterEntry[] = [];
+  query.forEach((value, key) => {
+    const path = key.startsWith(prefix) ? key.slice(prefix.length) : "";
+    if (/^(\[[^\]]*\])+$/.test(path)) {
+      entries.push([
+        [...path.matchAll(/\[([^\]]*)\]/g)].map(([, segment]) => segment),
+        value,
+      ]);
+    }
+  });
+  return readFilter(entries, parseValue);
+}
@@ -0,0 +1,435 @@
+/**
+ * Adaptateur de référence en mémoire pour CrudService
+ * Implémentation canonique de la sémantique des ReadOptions (filtre typé, tri, recherche,
+ * pagination par page, offset ou curseur) contre laquelle les autres adaptateurs sont éprouvés.
+ * Les écritures peuvent être diffusées sur un bus d'événements pour éprouver le temps réel.
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { CancelledError, ConflictError, NotFoundError } from "../types/errors";
+import {
+  ApiCallContext,
+  EntityBase,
+  ReadManyResult,
+  ReadOptions,
+} from "./crudService";
+import { EntityEventBus, EntityEventListener, EntityEventType } from "./events";
+import { FilterCondition, FilterNode, toFilterNode } from "./filter";
+import {
+  getValueAtPath,
+  normalizeSort,
+  resolvePagination,
+} from "./readOptions";
+
+/**
+ * Résolveur d'une relation demandée via ReadOptions.includes
+ * Reçoit l'entité et le contenu courant du store
+ */
+export type InMemoryRelationResolver<TEntity> = (
+  entity: TEntity,
+  store: readonly TEntity[]
+) => unknown;
+
+/**
+ * Options de configuration de l'adaptateur en mémoire
+ */
+export interface InMemoryAdapterOptions<TEntity extends EntityBase> {
+  /** Entités présentes à l'initialisation */
+  initialData?: TEntity[];
+  /** Générateur d'identifiants (par défaut : compteur incrémental) */
+  generateId?: () => string;
+  /** Champs parcourus par ReadOptions.search (par défaut : tous les champs texte) */
+  searchFields?: string[];
+  /** Résolveurs des relations disponibles pour ReadOptions.includes */
+  relations?: Record<string, InMemoryRelationResolver<TEntity>>;
+  /**
+   * Numérote les versions des entités : 1 à la création, incrémentée à chaque mise à jour.
+   * Indépendamment de cette option, une mise à jour ou une suppression portant une version
+   * différente de celle du store est rejetée par un ConflictError.
+   */
+  versioned?: boolean;
+  /** Diffusion des écritures sur un bus d'événements, exposée par `subscribe` */
+  events?: { bus: EntityEventBus; entityName: string };
+}
+
+/**
+ * Contrat de l'adaptateur en mémoire
+ * Compatible avec l'emplacement `api` du constructeur de CrudService
+ */
+export interface InMemoryAdapter<TEntity extends EntityBase> {
+  create: (
+    data: Omit<TEntity, "id"> & EntityBase,
+    context?: ApiCallContext
+  ) => Promise<TEntity>;
+  update: (
+    data: Partial<TEntity> & { id: string },
+    context?: ApiCallContext
+  ) => Promise<TEntity>;
+  delete: (
+    data: { id: string } & Pick<EntityBase, "version">,
+    context?: ApiCallContext
+  ) => Promise<TEntity>;
+  getOne: (
+    id: string,
+    params?: Omit<ReadOptions, "pagination">,
+    context?: ApiCallContext
+  ) => Promise<TEntity>;
+  getMany: (
+    params?: ReadOptions,
+    context?: ApiCallContext
+  ) => Promise<ReadManyResult<TEntity>>;
+  /** Abonnement aux écritures, présent si l'option `events` est fournie */
+  subscribe?: (listener: EntityEventListener<TEntity>) => () => void;
+  /** Copie du contenu courant du store, dans l'ordre d'insertion */
+  snapshot: () => TEntity[];
+  /** Vide le store */
+  clear: () => void;
+}
+
+/**
+ * Interrompt une opération dont le signal a déjà été annulé
+ */
+function throwIfAborted(context?: ApiCallContext): void {
+  if (context?.signal?.aborted) {
+    throw new CancelledError("Operation cancelled");
+  }
+}
+
+/**
+ * Égalité de valeurs utilisée par les filtres
+ * Les dates sont comparées par leur valeur temporelle
+ */
+function valuesEqual(actual: unknown, expected: unknown): boolean {
+  if (actual instanceof Date && expected instanceof Date) {
+    return actual.getTime() === expected.getTime();
+  }
+  return Object.is(actual, expected);
+}
+
+/**
+ * Comparaison ordonnée utilisée par le tri
+ * Les valeurs nulles ou absentes sont toujours placées en dernier
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const aMissing = a === null || a === undefined;
+  const bMissing = b === null || b === undefined;
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return Number(a) - Number(b);
+  }
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Évalue une condition élémentaire du langage de filtre
+ * Les comparaisons échouent sur une valeur nulle ou absente
+ */
+function matchesCondition(
+  entity: unknown,
+  condition: FilterCondition
+): boolean {
+  const actual = getValueAtPath(entity, condition.field);
+  const expected = condition.value;
+  const missing = actual === null || actual === undefined;
+
+  switch (condition.operator) {
+    case "eq":
+      return valuesEqual(actual, expected);
+    case "ne":
+      return !valuesEqual(actual, expected);
+    case "in":
+      return (expected as unknown[]).some((candidate) =>
+        valuesEqual(actual, candidate)
+      );
+    case "lt":
+      return !missing && compareValues(actual, expected) < 0;
+    case "lte":
+      return !missing && compareValues(actual, expected) <= 0;
+    case "gt":
+      return !missing && compareValues(actual, expected) > 0;
+    case "gte":
+      return !missing && compareValues(actual, expected) >= 0;
+    case "between": {
+      const [min, max] = expected as [unknown, unknown];
+      return (
+        !missing &&
+        compareValues(actual, min) >= 0 &&
+        compareValues(actual, max) <= 0
+      );
+    }
+    case "contains":
+      return typeof actual === "string" && actual.includes(String(expected));
+    case "startsWith":
+      return typeof actual === "string" && actual.startsWith(String(expected));
+    case "isNull":
+      return missing === Boolean(expected);
+  }
+}
+
+/**
+ * Évalue un arbre de filtre
+ */
+function matchesNode(entity: unknown, node: FilterNode): boolean {
+  switch (node.type) {
+    case "and":
+      return node.nodes.every((child) => matchesNode(entity, child));
+    case "or":
+      return node.nodes.some((child) => matchesNode(entity, child));
+    case "not":
+      return !matchesNode(entity, node.node);
+    case "condition":
+      return matchesCondition(entity, node);
+  }
+}
+
+/**
+ * Vérifie qu'une entité satisfait un filtre (langage de filtre typé)
+ * Une valeur tableau dans le filtre est interprétée comme une appartenance (IN)
+ */
+function matchesFilter(
+  entity: unknown,
+  filter: Record<string, unknown> | undefined
+): boolean {
+  return !filter || matchesNode(entity, toFilterNode(filter));
+}
+
+/**
+ * Vérifie qu'une entité correspond à une recherche textuelle insensible à la casse
+ */
+function matchesSearch(
+  entity: unknown,
+  search: string | undefined,
+  searchFields: string[] | undefined
+): boolean {
+  const term = search?.trim().toLowerCase();
+  if (!term) {
+    return true;
+  }
+
+  const values = searchFields
+    ? searchFields.map((field) => getValueAtPath(entity, field))
+    : Object.values(entity as Record<string, unknown>);
+
+  return values.some(
+    (value) => typeof value === "string" && value.toLowerCase().includes(term)
+  );
+}
+
+/**
+ * Crée un adaptateur en mémoire pour une entité
+ *
+ * Sémantique des ReadOptions :
+ * - `filter` : égalité stricte par chemin pointé, tableau = appartenance
+ * - `sort` : critères appliqués par ordre de priorité, valeurs nulles en dernier
+ * - `search` : sous-chaîne insensible à la casse sur `searchFields`
+ * - `includes` : résolution via `relations`, une relation inconnue est une erreur
+ * - `pagination` : `offset` prioritaire sur `page`, `cursor` désigne l'identifiant
+ *   de la dernière entité reçue et prime sur les deux ; `meta.nextCursor` fournit
+ *   le curseur de la page suivante
+ *
+ * @template TEntity Type de l'entité stockée
+ * @param options Configuration de l'adaptateur
+ * @returns Objet `api` utilisable par CrudService
+ */
+export function createInMemoryAdapter<TEntity extends EntityBase>(
+  options: InMemoryAdapterOptions<TEntity> = {}
+): InMemoryAdapter<TEntity> {
+  const store = new Map<string, TEntity>();
+
+  // Compteur par défaut, ignorant les identifiants déjà présents dans le store
+  let sequence = 0;
+  const nextSequenceId = (): string => {
+    do {
+      sequence += 1;
+    } while (store.has(String(sequence)));
+    return String(sequence);
+  };
+  const generateId = options.generateId ?? nextSequenceId;
+
+  (options.initialData ?? []).forEach((entity) => {
+    const id = entity.id ?? generateId();
+    store.set(id, { ...entity, id });
+  });
+
+  const requireEntity = (id: string): TEntity => {
+    const entity = store.get(id);
+    if (!entity) {
+      throw new NotFoundError(`Entity with ID ${id} not found`);
+    }
+    return entity;
+  };
+
+  // Contrôle de concurrence optimiste : la version fournie doit être la version courante
+  const requireVersion = (
+    data: { id: string } & Pick<EntityBase, "version">
+  ): TEntity => {
+    const entity = requireEntity(data.id);
+    if (
+      data.version !== undefined &&
+      entity.version !== undefined &&
+      data.version !== entity.version
+    ) {
+      throw new ConflictError<unknown>(
+        `Entity with ID ${data.id} was modified (version ${entity.version})`,
+        { local: data, server: { ...entity } }
+      );
+    }
+    return entity;
+  };
+
+  // Diffusion d'une écriture aux abonnés, sur une copie de l'entité
+  const emit = (type: EntityEventType, entity: TEntity): void => {
+    options.events?.bus.publish({
+      type,
+      entityName: options.events.entityName,
+      entity: { ...entity },
+    });
+  };
+
+  // Application des relations demandées sur une copie de l'entité
+  const withIncludes = (entity: TEntity, includes?: string[]): TEntity => {
+    const result = { ...entity } as Record<string, unknown>;
+    const entities = Array.from(store.values());
+
+    (includes ?? []).forEach((name) => {
+      const resolver = options.relations?.[name];
+      if (!resolver) {
+        throw new Error(`Unknown include: ${name}`);
+      }
+      result[name] = resolver(entity, entities);
+    });
+
+    return result as TEntity;
+  };
+
+  return {
+    create: async (data, context) => {
+      throwIfAborted(context);
+      const id = data.id ?? generateId();
+      if (store.has(id)) {
+        throw new ConflictError(`Entity with ID ${id} already exists`, {
+          local: data,
+          server: { ...requireEntity(id) },
+        });
+      }
+
+      const entity = {
+        ...data,
+        id,
+        ...(options.versioned ? { version: 1 } : {}),
+      } as TEntity;
+      store.set(id, entity);
+      emit("created", entity);
+      return { ...entity };
+    },
+
+    update: async (data, context) => {
+      throwIfAborted(context);
+      const current = requireVersion(data);
+      const entity = {
+        ...current,
+        ...data,
+        ...(options.versioned
+          ? { version: Number(current.version ?? 0) + 1 }
+          : {}),
+      } as TEntity;
+      store.set(data.id, entity);
+      emit("updated", entity);
+      return { ...entity };
+    },
+
+    delete: async (data, context) => {
+      throwIfAborted(context);
+      const entity = requireVersion(data);
+      store.delete(data.id);
+      emit("deleted", entity);
+      return { ...entity };
+    },
+
+    getOne: async (id, params, context) => {
+      throwIfAborted(context);
+      return withIncludes(requireEntity(id), params?.includes);
+    },
+
+    getMany: async (params = {}, context) => {
+      throwIfAborted(context);
+      const sortOptions = normalizeSort(params.sort);
+
+      // Filtrage puis recherche textuelle
+      const matching = Array.from(store.values()).filter(
+        (entity) =>
+          matchesFilter(entity, params.filter) &&
+          matchesSearch(entity, params.search, options.searchFields)
+      );
+
+      // Tri stable multi-critères
+      if (sortOptions.length > 0) {
+        matching.sort((a, b) => {
+          for (const { field, direction } of sortOptions) {
+            const order = compareValues(
+              getValueAtPath(a, field),
+              getValueAtPath(b, field)
+            );
+            if (order !== 0) {
+              return direction === "desc" ? -order : order;
+            }
+          }
+          return 0;
+        });
+      }
+
+      // Résolution de la fenêtre de pagination
+      const resolved = resolvePagination(params.pagination);
+      const limit = resolved.limit;
+      let offset = resolved.offset;
+      const cursor = params.pagination?.cursor;
+      if (cursor !== undefined) {
+        const cursorIndex = matching.findIndex(
+          (entity) => entity.id === cursor
+        );
+        offset = cursorIndex === -1 ? matching.length : cursorIndex + 1;
+      }
+
+      const total = matching.length;
+      const pageData = matching.slice(
+        offset,
+        limit !== undefined ? offset + limit : undefined
+      );
+      const effectiveLimit = limit ?? Math.max(total, 1);
+
+      return {
+        data: pageData.map((entity) => withIncludes(entity, params.includes)),
+        meta: {
+          total,
+          page: Math.floor(offset / effectiveLimit) + 1,
+          limit: effectiveLimit,
+          pages: Math.max(1, Math.ceil(total / effectiveLimit)),
+          nextCursor:
+            offset + pageData.length < total && pageData.length > 0
+              ? pageData[pageData.length - 1].id
+              : null,
+        },
+      };
+    },
+
+    subscribe: options.events
+      ? options.events.bus.channel<TEntity>(options.events.entityName)
+      : undefined,
+
+    snapshot: () => Array.from(store.values()).map((entity) => ({ ...entity })),
+
+    clear: () => {
+      store.clear();
+    },
+  };
+}
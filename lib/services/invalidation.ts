@@ -0,0 +1,142 @@
+/**
+ * Invalidation déclarative du cache des lectures après les mutations
+ * Chaque mutation réussie rafraîchit, corrige ou évince les lectures dépendantes,
+ * pour toutes les instances de hook abonnées au cache
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { QueryCache, QueryKey, QueryPredicate } from "./queryCache";
+
+/**
+ * Mutations déclenchant une invalidation
+ */
+export type MutationOperation = "create" | "update" | "delete";
+
+/**
+ * Règle d'invalidation appliquée après une mutation réussie
+ *
+ * Les fonctions reçoivent les données envoyées au service et son résultat brut,
+ * c'est-à-dire la forme stockée dans le cache.
+ */
+export interface InvalidationRule<TData = any, TResult = any> {
+  /** Entité ciblée (par défaut : celle du hook) */
+  entityName?: string;
+  /** Lecture ciblée (par défaut : getOne et getMany) */
+  operation?: "getOne" | "getMany";
+  /** Restreint getOne à l'entité concernée (toutes les entrées si undefined) */
+  id?: (data: TData, result: TResult) => string | undefined;
+  /**
+   * Action sur les entrées ciblées (par défaut : "refetch")
+   * - refetch : relecture immédiate des entrées observées
+   * - remove : éviction (ex: entité supprimée)
+   * - patch : mise à jour locale via `patch`, sans appel réseau
+   */
+  action?: "refetch" | "remove" | "patch";
+  /** Calcule la nouvelle donnée en cache pour l'action "patch" */
+  patch?: (cached: any, data: TData, result: TResult) => any;
+}
+
+/**
+ * Règles par mutation ; `false` désactive l'invalidation de la mutation
+ */
+export type InvalidationOptions = Partial<
+  Record<MutationOperation, InvalidationRule[] | false>
+>;
+
+/**
+ * Identifiant de l'entité concernée par une mutation, lu dans le résultat puis dans l'entrée
+ */
+export function getMutatedId(
+  data: unknown,
+  result: unknown
+): string | undefined {
+  for (const source of [result, data]) {
+    if (source !== null && typeof source === "object" && "id" in source) {
+      const id = (source as { id: unknown }).id;
+      if (id !== undefined && id !== null) {
+        return String(id);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Sélectionne les lectures en cache d'une entité
+ *
+ * @param entityName Entité ciblée
+ * @param operation Lecture ciblée (getOne et getMany si absente)
+ * @param id Restreint getOne à cette entité
+ * @returns Prédicat de sélection des clés
+ */
+export function selectReadQueries(
+  entityName: string,
+  operation?: "getOne" | "getMany",
+  id?: string
+): QueryPredicate {
+  return (key: QueryKey) =>
+    key[0] === entityName &&
+    (!operation || key[1] === operation) &&
+    (id === undefined || key[1] !== "getOne" || key[2] === id);
+}
+
+/**
+ * Règles appliquées par défaut
+ * - create : relecture des listes
+ * - update : relecture de l'entité modifiée et des listes
+ * - delete : éviction de l'entité supprimée et relecture des listes
+ */
+export const defaultInvalidationRules: Record<
+  MutationOperation,
+  InvalidationRule[]
+> = {
+  create: [{ operation: "getMany" }],
+  update: [{ operation: "getOne", id: getMutatedId }, { operation: "getMany" }],
+  delete: [
+    { operation: "getOne", id: getMutatedId, action: "remove" },
+    { operation: "getMany" },
+  ],
+};
+
+/**
+ * Applique les règles d'invalidation d'une mutation réussie
+ *
+ * @param queryCache Cache des lectures
+ * @param entityName Entité du hook à l'origine de la mutation
+ * @param rules Règles à appliquer
+ * @param data Données envoyées au service
+ * @param result Résultat brut du service
+ */
+export function applyInvalidationRules(
+  queryCache: QueryCache,
+  entityName: string,
+  rules: InvalidationRule[],
+  data: unknown,
+  result: unknown
+): void {
+  rules.forEach((rule) => {
+    const predicate = selectReadQueries(
+      rule.entityName ?? entityName,
+      rule.operation,
+      rule.id?.(data, result)
+    );
+
+    switch (rule.action ?? "refetch") {
+      case "remove":
+        queryCache.removeQueries(predicate);
+        break;
+      case "patch": {
+        const patch = rule.patch;
+        if (patch) {
+          queryCache.updateQueries(predicate, (cached) =>
+            patch(cached, data, result)
+          );
+        }
+        break;
+      }
+      default:
+        queryCache.invalidateQueries(predicate);
+    }
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Chaîne de middlewares pour les opérations CrudService
+ * Point d'extension transverse (authentification, cloisonnement, mesure, cache)
+ * appliqué uniformément à toutes les opérations, sur le modèle `(ctx, next)`
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { CrudOperation } from "../types/errors";
+
+/**
+ * Contexte partagé par les middlewares d'une même opération
+ *
+ * `input` correspond aux données reçues par la méthode du service :
+ * - create / update / delete : le DTO
+ * - getOne : `{ id, params }`
+ * - getMany : les paramètres de lecture
+ * - createMany / updateMany / deleteMany : la liste des DTO
+ */
+export interface CrudMiddlewareContext {
+  readonly entityName: string;
+  readonly operation: CrudOperation;
+  /** Entrée de l'opération, réécrivable avant l'appel à `next` */
+  input: unknown;
+  /** Résultat de l'opération, disponible après `next` ou défini pour court-circuiter */
+  result?: unknown;
+  /** Espace libre pour partager des données entre middlewares */
+  state: Record<string, unknown>;
+  /** Signal d'annulation de l'appel */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Middleware CRUD
+ * Ne pas appeler `next` court-circuite la suite de la chaîne et l'appel à l'API
+ */
+export type CrudMiddleware = (
+  context: CrudMiddlewareContext,
+  next: () => Promise<void>
+) => Promise<void>;
+
+/**
+ * Compose une liste de middlewares en une seule fonction d'exécution
+ *
+ * @param middlewares Middlewares, du plus externe au plus interne
+ * @returns Fonction exécutant la chaîne puis le cœur de l'opération
+ */
+export function composeMiddleware(middlewares: CrudMiddleware[]) {
+  return (
+    context: CrudMiddlewareContext,
+    core: () => Promise<void>
+  ): Promise<void> => {
+    let lastIndex = -1;
+
+    const dispatch = async (index: number): Promise<void> => {
+      if (index <= lastIndex) {
+        throw new Error("next() called multiple times");
+      }
+      lastIndex = index;
+
+      const middleware = middlewares[index];
+      if (!middleware) {
+        return core();
+      }
+      return middleware(context, () => dispatch(index + 1));
+    };
+
+    return dispatch(0);
+  };
+}
@@ -0,0 +1,523 @@
+/**
+ * File persistante des mutations hors ligne
+ * Les mutations émises sans connexion sont conservées dans un stockage interchangeable
+ * (mémoire, localStorage, IndexedDB) puis rejouées dans l'ordre au retour de la connexion
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { CancelledError, CrudError, toCrudError } from "../types/errors";
+import { MutationOperation } from "./invalidation";
+import { computeBackoff, RetryPolicy } from "./retry";
+
+/**
+ * Mutation en attente de rejeu
+ * Les données sont celles envoyées au service et doivent être sérialisables en JSON
+ */
+export interface QueuedMutation {
+  id: string;
+  entityName: string;
+  operation: MutationOperation;
+  data: unknown;
+  enqueuedAt: number;
+  /** Nombre de rejeux interrompus par une erreur transitoire */
+  attempts: number;
+}
+
+/**
+ * Mutation rejetée lors du rejeu, retirée de la file
+ */
+export interface QueueFailure {
+  mutation: QueuedMutation;
+  error: CrudError;
+}
+
+/**
+ * Issue du rejeu d'une mutation, transmise à l'émetteur de la mutation
+ * Une mutation retirée de la file (discard, clear) est rejetée avec CancelledError
+ */
+export type MutationOutcome =
+  | { status: "fulfilled"; result: unknown }
+  | { status: "rejected"; error: CrudError };
+
+/**
+ * État observable de la file
+ */
+export interface OfflineQueueState {
+  pending: QueuedMutation[];
+  /** Mutations rejetées pour conflit (ConflictError) */
+  conflicts: QueueFailure[];
+  /** Mutations rejetées pour une autre raison définitive (validation, introuvable...) */
+  failures: QueueFailure[];
+  online: boolean;
+  replaying: boolean;
+}
+
+/**
+ * Stockage persistant de la file
+ * Contrat asynchrone pour accepter les stockages de type IndexedDB
+ */
+export interface QueueStorage {
+  load(): Promise<QueuedMutation[]>;
+  save(mutations: QueuedMutation[]): Promise<void>;
+}
+
+/**
+ * Exécuteurs de rejeu d'une entité
+ */
+export type MutationHandlers = Partial<
+  Record<MutationOperation, (data: unknown) => Promise<unknown>>
+>;
+
+/**
+ * Configuration de la file
+ */
+export interface OfflineQueueOptions {
+  /** Stockage de la file (par défaut : mémoire) */
+  storage?: QueueStorage;
+  /** État de la connexion (par défaut : navigator.onLine) */
+  isOnline?: () => boolean;
+  /**
+   * Abonnement aux changements de connexion, déclenchant le rejeu au retour en ligne
+   * (par défaut : événements "online" / "offline" de window)
+   */
+  subscribeConnectivity?: (onChange: () => void) => () => void;
+  /**
+   * Attente avant un nouveau rejeu après une erreur transitoire, croissant avec les
+   * tentatives de la mutation en tête de file (par défaut : 1 s, 1 min au plus)
+   */
+  retryDelay?: Pick<
+    RetryPolicy,
+    "baseDelayMs" | "maxDelayMs" | "factor" | "jitter"
+  >;
+}
+
+/**
+ * Stockage en mémoire, non persistant
+ */
+export function createMemoryStorage(): QueueStorage {
+  let saved: QueuedMutation[] = [];
+  return {
+    load: async () => saved.map((mutation) => ({ ...mutation })),
+    save: async (mutations) => {
+      saved = mutations.map((mutation) => ({ ...mutation }));
+    },
+  };
+}
+
+/**
+ * Stockage dans localStorage (ou tout stockage au contrat Web Storage)
+ *
+ * @param key Clé de stockage
+ * @param storage Stockage utilisé (par défaut : window.localStorage)
+ */
+export function createLocalStorageStorage(
+  key: string,
+  storage: Pick<Storage, "getItem" | "setItem"> = globalThis.localStorage
+): QueueStorage {
+  return {
+    load: async () => {
+      const raw = storage.getItem(key);
+      return raw ? (JSON.parse(raw) as QueuedMutation[]) : [];
+    },
+    save: async (mutations) => {
+      storage.setItem(key, JSON.stringify(mutations));
+    },
+  };
+}
+
+/**
+ * Stockage IndexedDB, la file étant conservée sous une clé unique
+ *
+ * @param databaseName Nom de la base
+ * @param storeName Nom du magasin d'objets
+ * @param factory Fabrique IndexedDB (par défaut : globalThis.indexedDB)
+ */
+export function createIndexedDBStorage(
+  databaseName: string,
+  storeName = "mutations",
+  factory: IDBFactory = globalThis.indexedDB
+): QueueStorage {
+  const QUEUE_KEY = "queue";
+
+  const request = <T>(build: (store: IDBObjectStore) => IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+      const open = factory.open(databaseName, 1);
+      open.onupgradeneeded = () => open.result.createObjectStore(storeName);
+      open.onerror = () => reject(open.error);
+      open.onsuccess = () => {
+        const database = open.result;
+        const transaction = database.transaction(storeName, "readwrite");
+        const pending = build(transaction.objectStore(storeName));
+        transaction.oncomplete = () => {
+          database.close();
+          resolve(pending.result);
+        };
+        transaction.onerror = () => {
+          database.close();
+          reject(transaction.error);
+        };
+      };
+    });
+
+  return {
+    load: async () =>
+      ((await request((store) => store.get(QUEUE_KEY))) as
+        | QueuedMutation[]
+        | undefined) ?? [],
+    save: async (mutations) => {
+      await request((store) => store.put(mutations, QUEUE_KEY));
+    },
+  };
+}
+
+/**
+ * Connexion par défaut : navigator.onLine, considérée active hors navigateur
+ */
+function defaultIsOnline(): boolean {
+  return typeof navigator === "undefined" || navigator.onLine !== false;
+}
+
+/**
+ * Abonnement par défaut aux événements de connexion de window
+ */
+function defaultSubscribeConnectivity(onChange: () => void): () => void {
+  if (typeof window === "undefined") {
+    return () => undefined;
+  }
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+let sequence = 0;
+
+/**
+ * File des mutations hors ligne
+ *
+ * Le rejeu respecte l'ordre d'émission de chaque entité. Il s'interrompt sur une erreur
+ * transitoire (réseau, délai dépassé) et reprend après une attente croissante ; les mutations
+ * d'une entité sans exécuteur enregistré restent en file sans bloquer les autres entités.
+ * Les mutations rejetées définitivement sont retirées de la file.
+ */
+export class OfflineQueue {
+  private pending: QueuedMutation[] = [];
+  private conflicts: QueueFailure[] = [];
+  private failures: QueueFailure[] = [];
+  private replaying?: Promise<void>;
+  /** Exécuteurs par entité, le plus récemment enregistré en dernier */
+  private readonly handlers = new Map<string, MutationHandlers[]>();
+  private readonly listeners = new Set<(state: OfflineQueueState) => void>();
+  private readonly storage: QueueStorage;
+  private readonly hydrated: Promise<void>;
+  private readonly unsubscribeConnectivity: () => void;
+  /** Émetteurs en attente de l'issue de leur mutation, par identifiant (non persistés) */
+  private readonly settleListeners = new Map<
+    string,
+    (outcome: MutationOutcome) => void
+  >();
+  private retryTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * @param options Stockage et détection de la connexion
+   */
+  constructor(private readonly options: OfflineQueueOptions = {}) {
+    this.storage = options.storage ?? createMemoryStorage();
+
+    // Restauration de la file persistée, devant les mutations émises entre-temps
+    this.hydrated = this.storage
+      .load()
+      .then((restored) => {
+        this.pending = [...restored, ...this.pending];
+        this.notify();
+      })
+      .catch(() => undefined);
+
+    this.unsubscribeConnectivity = (
+      options.subscribeConnectivity ?? defaultSubscribeConnectivity
+    )(() => {
+      this.notify();
+      if (this.isOnline()) {
+        this.replay().catch(() => undefined);
+      }
+    });
+  }
+
+  /**
+   * Met fin à l'écoute de la connexion et des observateurs
+   * La file persistée est conservée pour une prochaine instance
+   */
+  dispose(): void {
+    this.unsubscribeConnectivity();
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+    this.listeners.clear();
+  }
+
+  /**
+   * Indique si la connexion est disponible
+   */
+  isOnline(): boolean {
+    return (this.options.isOnline ?? defaultIsOnline)();
+  }
+
+  /**
+   * État courant de la file
+   */
+  getState(): OfflineQueueState {
+    return {
+      pending: [...this.pending],
+      conflicts: [...this.conflicts],
+      failures: [...this.failures],
+      online: this.isOnline(),
+      replaying: this.replaying !== undefined,
+    };
+  }
+
+  /**
+   * Indique si des mutations sont en attente, pour une entité ou pour toutes
+   */
+  hasPending(entityName?: string): boolean {
+    return this.pending.some(
+      (mutation) =>
+        entityName === undefined || mutation.entityName === entityName
+    );
+  }
+
+  /**
+   * Abonne un observateur aux changements d'état de la file
+   *
+   * @returns Fonction de désabonnement
+   */
+  subscribe(listener: (state: OfflineQueueState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Enregistre les exécuteurs de rejeu d'une entité et tente un rejeu
+   * Plusieurs instances peuvent enregistrer les exécuteurs d'une même entité :
+   * le rejeu utilise le plus récent encore enregistré
+   *
+   * @returns Fonction de désinscription, qui ne retire que ces exécuteurs
+   */
+  register(entityName: string, handlers: MutationHandlers): () => void {
+    this.handlers.set(entityName, [
+      ...(this.handlers.get(entityName) ?? []),
+      handlers,
+    ]);
+    if (this.isOnline()) {
+      this.replay().catch(() => undefined);
+    }
+
+    return () => {
+      const remaining = (this.handlers.get(entityName) ?? []).filter(
+        (registered) => registered !== handlers
+      );
+      if (remaining.length > 0) {
+        this.handlers.set(entityName, remaining);
+      } else {
+        this.handlers.delete(entityName);
+      }
+    };
+  }
+
+  /**
+   * Ajoute une mutation en fin de file, rejouée aussitôt si la connexion est disponible
+   *
+   * @param onSettled Prévenu de l'issue du rejeu, tant que l'application n'est pas rechargée
+   * @returns Mutation enregistrée
+   */
+  async enqueue(
+    entityName: string,
+    operation: MutationOperation,
+    data: unknown,
+    onSettled?: (outcome: MutationOutcome) => void
+  ): Promise<QueuedMutation> {
+    const mutation: QueuedMutation = {
+      id: `${Date.now().toString(36)}-${(sequence++).toString(36)}`,
+      entityName,
+      operation,
+      data,
+      enqueuedAt: Date.now(),
+      attempts: 0,
+    };
+
+    if (onSettled) {
+      this.settleListeners.set(mutation.id, onSettled);
+    }
+    this.pending = [...this.pending, mutation];
+    await this.persist();
+
+    if (this.isOnline()) {
+      this.replay().catch(() => undefined);
+    }
+    return mutation;
+  }
+
+  /**
+   * Rejoue les mutations en attente, dans l'ordre
+   * Un seul rejeu s'exécute à la fois ; un appel concurrent rejoint le rejeu en cours
+   */
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+      this.replaying = this.drain().finally(() => {
+        this.replaying = undefined;
+        this.notify();
+      });
+      this.notify();
+    }
+    return this.replaying;
+  }
+
+  /**
+   * Retire une mutation de la file ou des rejets
+   */
+  async discard(id: string): Promise<void> {
+    this.pending
+      .filter((mutation) => mutation.id === id)
+      .forEach((mutation) => this.cancelMutation(mutation));
+    this.pending = this.pending.filter((mutation) => mutation.id !== id);
+    this.conflicts = this.conflicts.filter(
+      ({ mutation }) => mutation.id !== id
+    );
+    this.failures = this.failures.filter(({ mutation }) => mutation.id !== id);
+    await this.persist();
+  }
+
+  /**
+   * Vide la file et les rejets
+   */
+  async clear(): Promise<void> {
+    this.pending.forEach((mutation) => this.cancelMutation(mutation));
+    this.pending = [];
+    this.conflicts = [];
+    this.failures = [];
+    await this.persist();
+  }
+
+  /**
+   * Parcourt la file tant que la connexion et les exécuteurs le permettent
+   * Les entités sans exécuteur sont écartées du parcours, leurs mutations restant en file
+   */
+  private async drain(): Promise<void> {
+    await this.hydrated;
+    const parked = new Set<string>();
+
+    while (this.isOnline()) {
+      const mutation = this.pending.find(
+        (queued) => !parked.has(queued.entityName)
+      );
+      if (!mutation) {
+        return;
+      }
+
+      const handler = [...(this.handlers.get(mutation.entityName) ?? [])]
+        .reverse()
+        .find((handlers) => handlers[mutation.operation])?.[mutation.operation];
+      if (!handler) {
+        parked.add(mutation.entityName);
+        continue;
+      }
+
+      let outcome: MutationOutcome;
+      try {
+        outcome = { status: "fulfilled", result: await handler(mutation.data) };
+      } catch (error) {
+        const crudError = toCrudError(error, {
+          entityName: mutation.entityName,
+          operation: mutation.operation,
+        });
+
+        // Erreur transitoire : la mutation reste en tête de file jusqu'au prochain essai
+        if (crudError.kind === "network" || crudError.kind === "timeout") {
+          mutation.attempts++;
+          await this.persist();
+          this.scheduleRetry(mutation.attempts);
+          return;
+        }
+
+        const failure = { mutation, error: crudError };
+        if (crudError.kind === "conflict") {
+          this.conflicts = [...this.conflicts, failure];
+        } else {
+          this.failures = [...this.failures, failure];
+        }
+        outcome = { status: "rejected", error: crudError };
+      }
+
+      this.pending = this.pending.filter((queued) => queued !== mutation);
+      await this.persist();
+      this.settle(mutation, outcome);
+    }
+  }
+
+  /**
+   * Programme un nouveau rejeu après une erreur transitoire
+   */
+  private scheduleRetry(attempts: number): void {
+    clearTimeout(this.retryTimer);
+    const delay = computeBackoff(attempts, {
+      baseDelayMs: 1000,
+      maxDelayMs: 60 * 1000,
+      ...this.options.retryDelay,
+    });
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      if (this.isOnline()) {
+        this.replay().catch(() => undefined);
+      }
+    }, delay);
+  }
+
+  /**
+   * Transmet l'issue d'une mutation à son émetteur
+   */
+  private settle(mutation: QueuedMutation, outcome: MutationOutcome): void {
+    const listener = this.settleListeners.get(mutation.id);
+    this.settleListeners.delete(mutation.id);
+    listener?.(outcome);
+  }
+
+  /**
+   * Prévient l'émetteur d'une mutation retirée de la file
+   */
+  private cancelMutation(mutation: QueuedMutation): void {
+    this.settle(mutation, {
+      status: "rejected",
+      error: new CancelledError("Queued mutation discarded", {
+        entityName: mutation.entityName,
+        operation: mutation.operation,
+      }),
+    });
+  }
+
+  /**
+   * Sauvegarde la file et notifie les observateurs
+   * Une défaillance du stockage n'interrompt pas la file en mémoire
+   */
+  private async persist(): Promise<void> {
+    try {
+      await this.storage.save(this.pending);
+    } catch {
+      // La file en mémoire reste la référence
+    }
+    this.notify();
+  }
+
+  /**
+   * Notifie les observateurs de l'état courant
+   */
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
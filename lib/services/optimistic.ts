@@ -0,0 +1,184 @@
+/**
+ * Mises à jour optimistes du cache des lectures
+ * Une mutation applique immédiatement sa prévision aux lectures en cache,
+ * puis la retire si elle échoue
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import {
+  MutationOperation,
+  getMutatedId,
+  selectReadQueries,
+} from "./invalidation";
+import { QueryCache, QueryKey, hashQueryKey } from "./queryCache";
+
+/**
+ * Prévision appliquée au cache avant l'appel au service
+ *
+ * `update` reçoit la donnée en cache (résultat brut du service de lecture)
+ * et les données envoyées au service de mutation.
+ */
+export interface OptimisticUpdate<TData = any> {
+  /** Entité ciblée (par défaut : celle du hook) */
+  entityName?: string;
+  /** Lecture ciblée (par défaut : getOne et getMany) */
+  operation?: "getOne" | "getMany";
+  /** Restreint getOne à l'entité concernée (toutes les entrées si undefined) */
+  id?: (data: TData) => string | undefined;
+  /** Calcule la donnée prévue à partir de la donnée en cache */
+  update: (cached: any, data: TData) => any;
+}
+
+/**
+ * Applique une transformation à la liste d'un résultat de lecture multiple
+ * Les données d'une autre forme sont laissées intactes
+ */
+function updateList(
+  cached: unknown,
+  updater: (items: unknown[]) => unknown[]
+): unknown {
+  if (
+    cached === null ||
+    typeof cached !== "object" ||
+    !Array.isArray((cached as { data?: unknown }).data)
+  ) {
+    return cached;
+  }
+
+  const result = cached as { data: unknown[]; meta?: { total?: number } };
+  const data = updater(result.data);
+  const delta = data.length - result.data.length;
+
+  return {
+    ...result,
+    data,
+    meta:
+      result.meta && typeof result.meta.total === "number"
+        ? { ...result.meta, total: result.meta.total + delta }
+        : result.meta,
+  };
+}
+
+/**
+ * Vérifie qu'un élément de liste correspond à l'entité mutée
+ */
+function isSameEntity(item: unknown, data: unknown): boolean {
+  const id = getMutatedId(data, undefined);
+  return id !== undefined && getMutatedId(item, undefined) === id;
+}
+
+/**
+ * Prévisions appliquées avec `optimistic: true`, pour des entités identifiées par `id`
+ * et des listes de la forme ReadManyResult
+ * - create : ajout en fin de liste (fusion si l'entité y figure déjà)
+ * - update : fusion dans l'entité et dans les listes
+ * - delete : retrait des listes
+ */
+export const defaultOptimisticUpdates: Record<
+  MutationOperation,
+  OptimisticUpdate[]
+> = {
+  create: [
+    {
+      operation: "getMany",
+      update: (cached, data) =>
+        updateList(cached, (items) =>
+          items.some((item) => isSameEntity(item, data))
+            ? items.map((item) =>
+                isSameEntity(item, data)
+                  ? { ...(item as object), ...(data as object) }
+                  : item
+              )
+            : [...items, data]
+        ),
+    },
+  ],
+  update: [
+    {
+      operation: "getOne",
+      id: (data) => getMutatedId(data, undefined),
+      update: (cached, data) => ({ ...cached, ...data }),
+    },
+    {
+      operation: "getMany",
+      update: (cached, data) =>
+        updateList(cached, (items) =>
+          items.map((item) =>
+            isSameEntity(item, data)
+              ? { ...(item as object), ...(data as object) }
+              : item
+          )
+        ),
+    },
+  ],
+  delete: [
+    {
+      operation: "getMany",
+      update: (cached, data) =>
+        updateList(cached, (items) =>
+          items.filter((item) => !isSameEntity(item, data))
+        ),
+    },
+  ],
+};
+
+/**
+ * Applique des prévisions aux lectures en cache
+ * Les données prévues ne rendent pas les entrées fraîches. La restauration ne remplace
+ * que les entrées encore porteuses de la prévision (une relecture ou une autre prévision
+ * survenue entre-temps est conservée), puis invalide toutes les entrées concernées.
+ *
+ * @param queryCache Cache des lectures
+ * @param entityName Entité du hook à l'origine de la mutation
+ * @param updates Prévisions à appliquer
+ * @param data Données envoyées au service
+ * @returns Fonction restaurant les données remplacées
+ */
+export function applyOptimisticUpdates(
+  queryCache: QueryCache,
+  entityName: string,
+  updates: OptimisticUpdate[],
+  data: unknown
+): () => void {
+  const snapshot = new Map<
+    string,
+    { key: QueryKey; original: unknown; predicted: unknown }
+  >();
+
+  updates.forEach((optimistic) => {
+    const predicate = selectReadQueries(
+      optimistic.entityName ?? entityName,
+      optimistic.operation,
+      optimistic.id?.(data)
+    );
+
+    // Seule la première valeur d'une clé est conservée : c'est l'état d'origine
+    queryCache.getQueriesData(predicate).forEach(([key, cached]) => {
+      const hash = hashQueryKey(key);
+      if (!snapshot.has(hash)) {
+        snapshot.set(hash, { key, original: cached, predicted: cached });
+      }
+    });
+    queryCache.updateQueries(
+      predicate,
+      (cached) => optimistic.update(cached, data),
+      { optimistic: true }
+    );
+    queryCache.getQueriesData(predicate).forEach(([key, predicted]) => {
+      const saved = snapshot.get(hashQueryKey(key));
+      if (saved) {
+        saved.predicted = predicted;
+      }
+    });
+  });
+
+  return () => {
+    snapshot.forEach(({ key, original, predicted }) => {
+      if (queryCache.hasData(key) && queryCache.getData(key) === predicted) {
+        queryCache.setData(key, original, { optimistic: true });
+      }
+    });
+    queryCache.invalidateQueries((key) => snapshot.has(hashQueryKey(key)));
+  };
+}
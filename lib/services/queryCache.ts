@@ -0,0 +1,438 @@
+/**
+ * Cache de requêtes partagé pour les lectures CRUD
+ * Stratégie stale-while-revalidate : une donnée en cache est servie immédiatement,
+ * puis revalidée en arrière-plan lorsqu'elle est périmée
+ *
+ * Les requêtes identiques en cours sont mutualisées et les abonnés d'une même clé
+ * (plusieurs instances de hook) reçoivent chaque nouvelle valeur.
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { normalizeReadOptions } from "./readOptions";
+import { awaitWithSignal } from "./retry";
+
+/**
+ * Clé d'une requête : entité, opération, identifiant éventuel et options normalisées
+ */
+export type QueryKey = readonly unknown[];
+
+/**
+ * Sélection d'entrées du cache par leur clé
+ */
+export type QueryPredicate = (key: QueryKey) => boolean;
+
+/**
+ * Observateur des nouvelles valeurs d'une clé
+ */
+export type QueryListener<T = unknown> = (data: T) => void;
+
+/**
+ * Durées de vie par défaut des entrées du cache
+ */
+export interface QueryCacheOptions {
+  /** Durée en millisecondes pendant laquelle une donnée est fraîche (par défaut : 0) */
+  staleTime?: number;
+  /** Conservation en millisecondes d'une entrée sans abonné (par défaut : 5 minutes) */
+  cacheTime?: number;
+}
+
+/**
+ * Options d'une écriture directe dans le cache
+ */
+export interface QueryWriteOptions {
+  /**
+   * Donnée prévue localement (mise à jour optimiste, restauration), non confirmée par le
+   * serveur : l'entrée conserve sa date et son état de fraîcheur
+   */
+  optimistic?: boolean;
+}
+
+/**
+ * Entrée interne du cache
+ */
+interface QueryEntry {
+  key: QueryKey;
+  hasData: boolean;
+  data?: unknown;
+  updatedAt: number;
+  invalidated: boolean;
+  promise?: Promise<unknown>;
+  /** Dernière requête lancée : la réponse d'une requête plus ancienne n'est jamais enregistrée */
+  latest?: Promise<unknown>;
+  /** Dernière requête exécutée, rejouée lors d'une invalidation */
+  fetcher?: () => Promise<unknown>;
+  listeners: Set<QueryListener>;
+  /** Observateurs prévenus lorsque la donnée de l'entrée est supprimée */
+  removalListeners: Set<() => void>;
+  cacheTime: number;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_CACHE_TIME = 5 * 60 * 1000;
+
+/**
+ * Sérialise une valeur de façon déterministe (clés d'objets triées)
+ */
+function stableSerialize(value: unknown): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableSerialize).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableSerialize(
+            (value as Record<string, unknown>)[key]
+          )}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return value === undefined ? "null" : JSON.stringify(value);
+}
+
+/**
+ * Calcule l'empreinte textuelle d'une clé de requête
+ *
+ * @param key Clé de requête
+ * @returns Empreinte stable, identique pour deux clés équivalentes
+ */
+export function hashQueryKey(key: QueryKey): string {
+  return stableSerialize(key);
+}
+
+/**
+ * Construit la clé de cache d'une lecture
+ *
+ * @param entityName Nom de l'entité
+ * @param operation Opération de lecture
+ * @param params Options de lecture (normalisées)
+ * @param id Identifiant pour getOne
+ * @returns Clé de requête
+ */
+export function createQueryKey(
+  entityName: string,
+  operation: "getOne" | "getMany",
+  params?: unknown,
+  id?: string
+): QueryKey {
+  const normalized = normalizeReadOptions(params) ?? null;
+  return operation === "getOne"
+    ? [entityName, operation, id, normalized]
+    : [entityName, operation, normalized];
+}
+
+/**
+ * Cache de requêtes clé/valeur avec mutualisation et abonnements
+ */
+export class QueryCache {
+  private readonly entries = new Map<string, QueryEntry>();
+
+  /**
+   * @param options Durées de vie par défaut des entrées
+   */
+  constructor(private readonly options: QueryCacheOptions = {}) {}
+
+  /**
+   * Indique si une donnée est disponible pour la clé
+   */
+  hasData(key: QueryKey): boolean {
+    return this.entries.get(hashQueryKey(key))?.hasData ?? false;
+  }
+
+  /**
+   * Retourne la donnée en cache pour la clé
+   */
+  getData<T>(key: QueryKey): T | undefined {
+    return this.entries.get(hashQueryKey(key))?.data as T | undefined;
+  }
+
+  /**
+   * Indique si la donnée de la clé doit être revalidée
+   *
+   * @param key Clé de requête
+   * @param staleTime Durée de fraîcheur (par défaut : celle du cache)
+   */
+  isStale(key: QueryKey, staleTime = this.options.staleTime ?? 0): boolean {
+    const entry = this.entries.get(hashQueryKey(key));
+    if (!entry || !entry.hasData || entry.invalidated) {
+      return true;
+    }
+    return Date.now() - entry.updatedAt >= staleTime;
+  }
+
+  /**
+   * Indique si une requête est en cours pour la clé
+   */
+  isFetching(key: QueryKey): boolean {
+    return this.entries.get(hashQueryKey(key))?.promise !== undefined;
+  }
+
+  /**
+   * Exécute la requête d'une clé, ou rejoint celle déjà en cours
+   * Le résultat est stocké et diffusé aux abonnés ; une erreur laisse la donnée précédente intacte
+   *
+   * @param key Clé de requête
+   * @param fetcher Requête à exécuter
+   * @param signal Annule l'attente de l'appelant sans interrompre la requête partagée
+   * @returns Donnée obtenue
+   */
+  fetch<T>(
+    key: QueryKey,
+    fetcher: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const entry = this.ensureEntry(key);
+    entry.fetcher = fetcher;
+
+    const promise = entry.promise ?? this.startFetch(entry, fetcher);
+    return awaitWithSignal(promise as Promise<T>, signal);
+  }
+
+  /**
+   * Remplace la donnée d'une clé et la diffuse aux abonnés
+   *
+   * @param key Clé de requête
+   * @param data Nouvelle donnée
+   * @param options Nature de la donnée écrite
+   */
+  setData<T>(key: QueryKey, data: T, options: QueryWriteOptions = {}): void {
+    const entry = this.ensureEntry(key);
+    this.store(entry, data, options.optimistic);
+    this.scheduleGc(entry);
+  }
+
+  /**
+   * Abonne un observateur aux nouvelles valeurs d'une clé
+   * Tant qu'une clé a des abonnés, son entrée n'est jamais évincée
+   *
+   * @param key Clé de requête
+   * @param listener Observateur
+   * @param cacheTime Conservation de l'entrée après le dernier désabonnement
+   * @param onRemove Appelé lorsque la donnée de la clé est supprimée (remove, removeQueries, clear)
+   * @returns Fonction de désabonnement
+   */
+  subscribe<T>(
+    key: QueryKey,
+    listener: QueryListener<T>,
+    cacheTime?: number,
+    onRemove?: () => void
+  ): () => void {
+    const entry = this.ensureEntry(key);
+    const observer = listener as QueryListener;
+
+    if (cacheTime !== undefined) {
+      entry.cacheTime = Math.max(entry.cacheTime, cacheTime);
+    }
+    entry.listeners.add(observer);
+    if (onRemove) {
+      entry.removalListeners.add(onRemove);
+    }
+    clearTimeout(entry.gcTimer);
+
+    return () => {
+      entry.listeners.delete(observer);
+      if (onRemove) {
+        entry.removalListeners.delete(onRemove);
+      }
+      this.scheduleGc(entry);
+    };
+  }
+
+  /**
+   * Marque les entrées sélectionnées comme périmées
+   * Les entrées observées sont relues immédiatement et leurs abonnés reçoivent la nouvelle valeur,
+   * les autres le seront à leur prochaine lecture. Une requête en cours, partie avant la
+   * modification, est remplacée par une nouvelle requête dont ses appelants reçoivent le résultat.
+   *
+   * @param predicate Sélection des clés
+   */
+  invalidateQueries(predicate: QueryPredicate): void {
+    this.select(predicate).forEach((entry) => {
+      entry.invalidated = true;
+      if (entry.fetcher && (entry.listeners.size > 0 || entry.promise)) {
+        this.startFetch(entry, entry.fetcher).catch(() => undefined);
+      }
+    });
+  }
+
+  /**
+   * Modifie directement la donnée des entrées sélectionnées et la diffuse aux abonnés
+   *
+   * @param predicate Sélection des clés
+   * @param updater Calcule la nouvelle donnée à partir de la donnée en cache
+   * @param options Nature de la donnée écrite
+   */
+  updateQueries<T>(
+    predicate: QueryPredicate,
+    updater: (data: T, key: QueryKey) => T,
+    options: QueryWriteOptions = {}
+  ): void {
+    this.select(predicate)
+      .filter((entry) => entry.hasData)
+      .forEach((entry) =>
+        this.store(
+          entry,
+          updater(entry.data as T, entry.key),
+          options.optimistic
+        )
+      );
+  }
+
+  /**
+   * Retourne la donnée des entrées sélectionnées, pour restauration ultérieure
+   *
+   * @param predicate Sélection des clés
+   * @returns Couples clé / donnée des entrées disposant d'une donnée
+   */
+  getQueriesData<T>(predicate: QueryPredicate): Array<[QueryKey, T]> {
+    return this.select(predicate)
+      .filter((entry) => entry.hasData)
+      .map((entry) => [entry.key, entry.data as T]);
+  }
+
+  /**
+   * Supprime les entrées sélectionnées
+   *
+   * @param predicate Sélection des clés
+   */
+  removeQueries(predicate: QueryPredicate): void {
+    this.select(predicate).forEach((entry) => this.remove(entry.key));
+  }
+
+  /**
+   * Supprime la donnée d'une clé
+   * Une entrée observée est conservée vide pour ne pas perdre ses abonnés
+   */
+  remove(key: QueryKey): void {
+    const entry = this.entries.get(hashQueryKey(key));
+    if (entry) {
+      this.evict(entry);
+    }
+  }
+
+  /**
+   * Vide le cache
+   */
+  clear(): void {
+    this.entries.forEach((entry) => this.evict(entry));
+  }
+
+  /**
+   * Lance une requête pour une entrée, sans rejoindre celle éventuellement en cours
+   * Une requête remplacée entre-temps se résout avec le résultat de la plus récente
+   */
+  private startFetch(
+    entry: QueryEntry,
+    fetcher: () => Promise<unknown>
+  ): Promise<unknown> {
+    const promise: Promise<unknown> = fetcher().then(
+      (data) => {
+        if (entry.latest !== promise) {
+          return entry.latest;
+        }
+        entry.promise = undefined;
+        this.store(entry, data);
+        this.scheduleGc(entry);
+        return data;
+      },
+      (error) => {
+        if (entry.latest !== promise) {
+          return entry.latest;
+        }
+        entry.promise = undefined;
+        this.scheduleGc(entry);
+        throw error;
+      }
+    );
+    entry.promise = promise;
+    entry.latest = promise;
+    return promise;
+  }
+
+  /**
+   * Efface la donnée d'une entrée, et l'entrée elle-même si elle n'est pas observée
+   * Les observateurs d'une entrée conservée sont prévenus de la suppression
+   */
+  private evict(entry: QueryEntry): void {
+    clearTimeout(entry.gcTimer);
+    if (entry.listeners.size > 0) {
+      entry.hasData = false;
+      entry.data = undefined;
+      entry.invalidated = true;
+      [...entry.removalListeners].forEach((listener) => listener());
+      return;
+    }
+    this.entries.delete(hashQueryKey(entry.key));
+  }
+
+  /**
+   * Retourne les entrées dont la clé satisfait le prédicat
+   */
+  private select(predicate: QueryPredicate): QueryEntry[] {
+    return [...this.entries.values()].filter((entry) => predicate(entry.key));
+  }
+
+  /**
+   * Retourne l'entrée d'une clé, créée si nécessaire
+   */
+  private ensureEntry(key: QueryKey): QueryEntry {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash);
+
+    if (!entry) {
+      entry = {
+        key,
+        hasData: false,
+        updatedAt: 0,
+        invalidated: false,
+        listeners: new Set(),
+        removalListeners: new Set(),
+        cacheTime: this.options.cacheTime ?? DEFAULT_CACHE_TIME,
+      };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Enregistre une donnée et notifie les abonnés
+   * Une donnée prévue localement ne rend pas l'entrée fraîche
+   */
+  private store(entry: QueryEntry, data: unknown, optimistic = false): void {
+    entry.data = data;
+    entry.hasData = true;
+    if (!optimistic) {
+      entry.updatedAt = Date.now();
+      entry.invalidated = false;
+    }
+    [...entry.listeners].forEach((listener) => listener(data));
+  }
+
+  /**
+   * Programme l'éviction d'une entrée sans abonné ni requête en cours
+   */
+  private scheduleGc(entry: QueryEntry): void {
+    clearTimeout(entry.gcTimer);
+    if (entry.listeners.size > 0 || entry.promise) {
+      return;
+    }
+
+    const hash = hashQueryKey(entry.key);
+    entry.gcTimer = setTimeout(() => {
+      if (this.entries.get(hash) === entry) {
+        this.entries.delete(hash);
+      }
+    }, entry.cacheTime);
+  }
+}
+
+/**
+ * Cache partagé par défaut entre toutes les instances de useCRUD
+ */
+export const defaultQueryCache = new QueryCache();
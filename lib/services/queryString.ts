@@ -0,0 +1,274 @@
+/**
+ * Codec bidirectionnel entre ReadOptions et paramètres d'URL
+ * Permet de refléter l'état d'une liste (pagination, filtre, tri, recherche, inclusions)
+ * dans l'URL, afin qu'il soit partageable et survive à un rechargement
+ *
+ * Le format est celui de l'adaptateur REST (`serializeReadOptions`), éventuellement
+ * préfixé pour faire cohabiter plusieurs listes dans une même URL. Les valeurs de filtre
+ * conservent leur type : nombres, booléens, `null` et dates sont écrits tels quels et
+ * une chaîne qui pourrait être lue comme l'un d'eux est écrite entre guillemets
+ * (`filter[code]="18"`), de sorte que le décodage restitue les ReadOptions encodées.
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { PaginationOptions, ReadOptions } from "./crudService";
+import { FilterValueParser, parseFilter } from "./filter";
+import { serializeReadOptions } from "./restAdapter";
+
+/**
+ * Configuration du codec
+ */
+export interface ReadOptionsCodecOptions {
+  /** Préfixe des clés (ex: "projects." donne `projects.page`, `projects.filter[status]`) */
+  prefix?: string;
+  /**
+   * Interprétation des valeurs de filtre, reçues telles qu'écrites dans l'URL
+   * (par défaut : `decodeFilterValue`, réciproque de l'encodage typé)
+   */
+  parseFilterValue?: FilterValueParser;
+}
+
+/**
+ * Clés simples du format, hors filtre
+ */
+const READ_OPTIONS_KEYS = [
+  "page",
+  "limit",
+  "offset",
+  "cursor",
+  "sort",
+  "include",
+  "search",
+];
+
+/**
+ * Indique si une clé de paramètre appartient aux ReadOptions d'un préfixe
+ */
+export function isReadOptionsKey(key: string, prefix = ""): boolean {
+  if (!key.startsWith(prefix)) {
+    return false;
+  }
+  const name = key.slice(prefix.length);
+  return READ_OPTIONS_KEYS.includes(name) || name.startsWith("filter[");
+}
+
+/**
+ * Valeurs textuelles lues comme un nombre, un booléen, `null` ou une date
+ */
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Indique si un texte serait lu comme une valeur typée plutôt que comme une chaîne
+ */
+function isTypedLiteral(value: string): boolean {
+  return (
+    value === "null" ||
+    value === "true" ||
+    value === "false" ||
+    value.startsWith('"') ||
+    NUMBER_PATTERN.test(value) ||
+    DATE_PATTERN.test(value)
+  );
+}
+
+/**
+ * Écrit une valeur de filtre en conservant son type
+ *
+ * @param value Valeur de filtre
+ * @returns Texte de la valeur, entre guillemets pour une chaîne ambiguë
+ */
+export function encodeFilterValue(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === "string") {
+    return isTypedLiteral(value) ? JSON.stringify(value) : value;
+  }
+  return value === null ? "null" : String(value);
+}
+
+/**
+ * Lit une valeur de filtre écrite par `encodeFilterValue`
+ *
+ * @param value Texte de la valeur
+ * @returns Nombre, booléen, `null`, date ou chaîne
+ */
+export function decodeFilterValue(value: string): unknown {
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  if (value === "null") {
+    return null;
+  }
+  if (value === "true" || value === "false") {
+    return value === "true";
+  }
+  if (NUMBER_PATTERN.test(value)) {
+    return Number(value);
+  }
+  if (DATE_PATTERN.test(value)) {
+    return new Date(value);
+  }
+  return value;
+}
+
+/**
+ * Remplace les valeurs d'un filtre par leur texte typé, en suivant sa structure
+ * (champs imbriqués, opérateurs, listes, composition)
+ */
+function encodeFilterValues(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(encodeFilterValues);
+  }
+  if (value !== null && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        child === undefined ? undefined : encodeFilterValues(child),
+      ])
+    );
+  }
+  return encodeFilterValue(value);
+}
+
+/**
+ * Encode des ReadOptions en paramètres d'URL
+ *
+ * @param options Paramètres de lecture
+ * @param codec Configuration du codec
+ * @returns Paramètres d'URL
+ */
+export function encodeReadOptions(
+  options: Partial<ReadOptions<any, any, any>>,
+  codec: ReadOptionsCodecOptions = {}
+): URLSearchParams {
+  const { prefix = "" } = codec;
+  const query = new URLSearchParams();
+  const typed = options.filter
+    ? { ...options, filter: encodeFilterValues(options.filter) }
+    : options;
+  serializeReadOptions(typed).forEach((value, key) =>
+    query.append(`${prefix}${key}`, value)
+  );
+  return query;
+}
+
+/**
+ * Lit un entier de pagination, ignoré s'il n'est pas numérique
+ */
+function readInteger(value: string | null): number | undefined {
+  if (value === null || !/^-?\d+$/.test(value)) {
+    return undefined;
+  }
+  return Number(value);
+}
+
+/**
+ * Lit une liste séparée par des virgules
+ */
+function readList(value: string | null): string[] {
+  return (value ?? "").split(",").filter((item) => item !== "");
+}
+
+/**
+ * Décode des ReadOptions à partir de paramètres d'URL
+ * Seules les options présentes dans l'URL sont restituées ; un tri sur un seul champ
+ * est une chaîne, un tri multiple une liste de chaînes ("-" pour un tri descendant)
+ *
+ * @param search Paramètres d'URL ou chaîne de requête
+ * @param codec Configuration du codec
+ * @returns Paramètres de lecture
+ */
+export function decodeReadOptions<
+  TParams extends ReadOptions<any, any, any> = ReadOptions
+>(
+  search: URLSearchParams | string,
+  codec: ReadOptionsCodecOptions = {}
+): Partial<TParams> {
+  const { prefix = "" } = codec;
+  const source =
+    typeof search === "string" ? new URLSearchParams(search) : search;
+
+  // Paramètres du préfixe, sans le préfixe
+  const query = new URLSearchParams();
+  source.forEach((value, key) => {
+    if (isReadOptionsKey(key, prefix)) {
+      query.append(key.slice(prefix.length), value);
+    }
+  });
+
+  const options: ReadOptions = {};
+
+  const pagination: PaginationOptions = {
+    page: readInteger(query.get("page")),
+    limit: readInteger(query.get("limit")),
+    offset: readInteger(query.get("offset")),
+    cursor: query.get("cursor") ?? undefined,
+  };
+  (Object.keys(pagination) as (keyof PaginationOptions)[]).forEach((key) => {
+    if (pagination[key] === undefined) {
+      delete pagination[key];
+    }
+  });
+  if (Object.keys(pagination).length > 0) {
+    options.pagination = pagination;
+  }
+
+  const filter = parseFilter(
+    query,
+    "filter",
+    codec.parseFilterValue ?? decodeFilterValue
+  );
+  if (Object.keys(filter).length > 0) {
+    options.filter = filter;
+  }
+
+  const sort = readList(query.get("sort"));
+  if (sort.length > 0) {
+    options.sort = sort.length === 1 ? sort[0] : sort;
+  }
+
+  const includes = readList(query.get("include"));
+  if (includes.length > 0) {
+    options.includes = includes;
+  }
+
+  const searchTerm = query.get("search");
+  if (searchTerm) {
+    options.search = searchTerm;
+  }
+
+  return options as Partial<TParams>;
+}
+
+/**
+ * Remplace les ReadOptions d'une chaîne de requête en conservant ses autres paramètres
+ *
+ * @param search Paramètres d'URL ou chaîne de requête courants
+ * @param options Nouveaux paramètres de lecture
+ * @param codec Configuration du codec
+ * @returns Paramètres d'URL mis à jour
+ */
+export function withReadOptions(
+  search: URLSearchParams | string,
+  options: Partial<ReadOptions<any, any, any>>,
+  codec: ReadOptionsCodecOptions = {}
+): URLSearchParams {
+  const { prefix = "" } = codec;
+  const query = new URLSearchParams();
+  new URLSearchParams(search).forEach((value, key) => {
+    if (!isReadOptionsKey(key, prefix)) {
+      query.append(key, value);
+    }
+  });
+  encodeReadOptions(options, codec).forEach((value, key) =>
+    query.append(key, value)
+  );
+  return query;
+}
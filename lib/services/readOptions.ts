@@ -0,0 +1,272 @@
+/**
+ * Utilitaires partagés pour l'interprétation des ReadOptions
+ * Point unique de normalisation de la topologie des requêtes pour tous les adaptateurs
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import {
+  PaginationOptions,
+  ReadManyResult,
+  ReadOptions,
+  SortOption,
+} from "./crudService";
+import { Filter, PreviousDepth } from "./filter";
+
+/**
+ * Valeurs terminales sur lesquelles un tri est possible
+ */
+type Sortable = string | number | boolean | bigint | Date;
+
+/**
+ * Chemins triables d'une entité (notation pointée), jusqu'à quatre niveaux d'imbrication
+ * Seuls les champs de valeur terminale sont retenus ; les tableaux sont exclus
+ */
+export type SortPath<T, TDepth extends number = 3> = [TDepth] extends [never]
+  ? never
+  : T extends object
+  ? {
+      [K in keyof T & string]: NonNullable<T[K]> extends Sortable
+        ? K
+        : NonNullable<T[K]> extends readonly unknown[]
+        ? never
+        : NonNullable<T[K]> extends object
+        ? `${K}.${SortPath<NonNullable<T[K]>, PreviousDepth[TDepth]>}`
+        : never;
+    }[keyof T & string]
+  : never;
+
+/**
+ * Entité liée désignée par un champ : l'objet lui-même ou l'élément d'une liste
+ */
+type Related<TValue> = NonNullable<TValue> extends readonly (infer TItem)[]
+  ? NonNullable<TItem>
+  : NonNullable<TValue>;
+
+/**
+ * Chemins de relations incluables d'une entité (ex: "owner", "owner.team")
+ * Une relation est un champ objet ou une liste d'objets
+ */
+export type IncludePath<T, TDepth extends number = 3> = [TDepth] extends [never]
+  ? never
+  : T extends object
+  ? {
+      [K in keyof T & string]: Related<T[K]> extends Sortable
+        ? never
+        : Related<T[K]> extends object
+        ? K | `${K}.${IncludePath<Related<T[K]>, PreviousDepth[TDepth]>}`
+        : never;
+    }[keyof T & string]
+  : never;
+
+/**
+ * Critère de tri textuel : chemin triable, préfixé de "-" pour un tri descendant
+ */
+export type SortKey<T> = SortPath<T> | `-${SortPath<T>}`;
+
+/**
+ * Option de tri d'une entité, sous forme textuelle ou de SortOption
+ */
+export type TypedSort<T> =
+  | SortKey<T>
+  | SortOption<SortPath<T>>
+  | Array<SortKey<T> | SortOption<SortPath<T>>>;
+
+/**
+ * ReadOptions dont le filtre, le tri et les inclusions sont vérifiés
+ * par rapport aux champs de l'entité
+ */
+export type TypedReadOptions<T> = ReadOptions<
+  Filter<T>,
+  TypedSort<T>,
+  IncludePath<T>
+>;
+
+/**
+ * Normalise l'option de tri en une liste ordonnée de SortOption
+ *
+ * Une chaîne est interprétée comme un nom de champ, un préfixe "-" indiquant
+ * un tri descendant (ex: "-createdAt").
+ *
+ * @param sort Option de tri telle que reçue dans ReadOptions
+ * @returns Liste de critères de tri, par ordre de priorité
+ */
+export function normalizeSort(sort: ReadOptions["sort"]): SortOption[] {
+  if (sort === undefined || sort === null) {
+    return [];
+  }
+
+  const entries = Array.isArray(sort) ? sort : [sort];
+
+  return entries.map((entry) => {
+    if (typeof entry !== "string") {
+      return entry;
+    }
+
+    return entry.startsWith("-")
+      ? { field: entry.slice(1), direction: "desc" }
+      : { field: entry, direction: "asc" };
+  });
+}
+
+/**
+ * Lit une valeur dans un objet à partir d'un chemin pointé (ex: "owner.name")
+ *
+ * @param source Objet source
+ * @param path Chemin pointé vers la propriété
+ * @returns Valeur trouvée ou undefined
+ */
+export function getValueAtPath(source: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((current, key) => {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    return (current as Record<string, unknown>)[key];
+  }, source);
+}
+
+/**
+ * Résout les options de pagination en un offset et une limite absolus
+ * La pagination par offset est prioritaire sur la pagination par page
+ *
+ * @param pagination Options de pagination
+ * @returns Offset de départ et limite (undefined si aucune limite)
+ */
+export function resolvePagination(pagination?: PaginationOptions): {
+  offset: number;
+  limit?: number;
+} {
+  const limit =
+    pagination?.limit !== undefined && pagination.limit > 0
+      ? pagination.limit
+      : undefined;
+
+  if (pagination?.offset !== undefined) {
+    return { offset: Math.max(0, pagination.offset), limit };
+  }
+
+  if (pagination?.page !== undefined && limit !== undefined) {
+    return { offset: (Math.max(1, pagination.page) - 1) * limit, limit };
+  }
+
+  return { offset: 0, limit };
+}
+
+/**
+ * Produit une forme canonique des options de lecture
+ * Deux requêtes équivalentes (tri abrégé ou détaillé, inclusions dans un autre ordre,
+ * clés non définies) produisent la même forme, utilisable comme clé de cache
+ *
+ * @param params Options de lecture
+ * @returns Copie normalisée des options
+ */
+export function normalizeReadOptions<TParams>(params?: TParams): TParams {
+  if (params === undefined || params === null || typeof params !== "object") {
+    return params as TParams;
+  }
+
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (key === "sort") {
+      normalized.sort = normalizeSort(value as ReadOptions["sort"]);
+    } else if (key === "includes" && Array.isArray(value)) {
+      normalized.includes = [...value].sort();
+    } else {
+      normalized[key] = value;
+    }
+  }
+
+  return normalized as TParams;
+}
+
+/**
+ * Résultat minimal d'une lecture paginée, utilisé pour déduire les pages voisines
+ */
+type PageResult = Pick<ReadManyResult<unknown>, "data" | "meta">;
+
+/**
+ * Déduit la pagination de la page suivante
+ * La stratégie de la requête est conservée : curseur, offset ou page
+ *
+ * @param result Résultat de la dernière page
+ * @param pagination Pagination ayant produit cette page
+ * @returns Pagination de la page suivante, undefined s'il n'y en a pas
+ */
+export function getNextPagination(
+  result: PageResult,
+  pagination: PaginationOptions = {}
+): PaginationOptions | undefined {
+  const meta = result.meta ?? {};
+  const received = result.data.length;
+
+  // Pagination par curseur, explicite ou annoncée par la réponse
+  if (
+    pagination.cursor !== undefined ||
+    (pagination.offset === undefined &&
+      pagination.page === undefined &&
+      meta.nextCursor !== undefined)
+  ) {
+    return meta.nextCursor
+      ? { limit: pagination.limit, cursor: meta.nextCursor }
+      : undefined;
+  }
+
+  // Sans total connu, une page incomplète est la dernière
+  const isLastPage = (position: number) =>
+    meta.total !== undefined
+      ? position >= meta.total
+      : received === 0 ||
+        (pagination.limit !== undefined && received < pagination.limit);
+
+  if (pagination.offset !== undefined) {
+    const offset = pagination.offset + received;
+    return isLastPage(offset) ? undefined : { ...pagination, offset };
+  }
+
+  const page = meta.page ?? pagination.page ?? 1;
+  const limit = meta.limit ?? pagination.limit;
+  const hasNext =
+    meta.pages !== undefined
+      ? page < meta.pages
+      : limit !== undefined && !isLastPage(page * limit);
+  return hasNext ? { ...pagination, page: page + 1 } : undefined;
+}
+
+/**
+ * Déduit la pagination de la page précédente
+ *
+ * @param result Résultat de la première page chargée
+ * @param pagination Pagination ayant produit cette page
+ * @returns Pagination de la page précédente, undefined s'il n'y en a pas
+ */
+export function getPreviousPagination(
+  result: PageResult,
+  pagination: PaginationOptions = {}
+): PaginationOptions | undefined {
+  const meta = result.meta ?? {};
+
+  // Le retour arrière par curseur dépend du curseur fourni par l'API
+  if (pagination.cursor !== undefined || meta.previousCursor !== undefined) {
+    return meta.previousCursor
+      ? { limit: pagination.limit, cursor: meta.previousCursor }
+      : undefined;
+  }
+
+  if (pagination.offset !== undefined) {
+    if (pagination.offset <= 0) {
+      return undefined;
+    }
+    // La page précédente s'arrête à l'offset courant, sans chevauchement
+    const limit = Math.min(
+      pagination.limit ?? result.data.length,
+      pagination.offset
+    );
+    return { ...pagination, offset: pagination.offset - limit, limit };
+  }
+
+  const page = meta.page ?? pagination.page ?? 1;
+  return page > 1 ? { ...pagination, page: page - 1 } : undefined;
+}
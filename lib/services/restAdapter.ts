@@ -0,0 +1,345 @@
+/**
+ * Adaptateur REST/HTTP pour CrudService
+ * Traduit les opérations CRUD en requêtes HTTP selon des conventions de routes configurables
+ *
+ * L'implémentation de fetch est injectable afin de pouvoir éprouver l'adaptateur
+ * contre un serveur local ou un double de test.
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { CancelledError, createHttpError, NetworkError } from "../types/errors";
+import {
+  ApiCallContext,
+  EntityBase,
+  ReadManyResult,
+  ReadOptions,
+} from "./crudService";
+import { serializeFilter } from "./filter";
+import { normalizeSort } from "./readOptions";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * Signature minimale de fetch requise par l'adaptateur
+ */
+export type FetchLike = (
+  input: string,
+  init?: RequestInit
+) => Promise<Response>;
+
+/**
+ * Définition d'une route pour une opération
+ * Le chemin est relatif à l'URL de base de la ressource
+ */
+export interface RouteDefinition<TInput> {
+  method?: HttpMethod;
+  path?: (input: TInput) => string;
+}
+
+/**
+ * Options de configuration de l'adaptateur REST
+ */
+export interface RestAdapterOptions<
+  TEntity,
+  TCreate,
+  TUpdate,
+  TDelete,
+  TReadParams extends ReadOptions
+> {
+  /** URL de base de la ressource (ex: https://api.example.com/projects) */
+  baseUrl: string;
+  /** Implémentation de fetch (par défaut : fetch global) */
+  fetch?: FetchLike;
+  /** En-têtes ajoutés à chaque requête, éventuellement résolus de manière asynchrone */
+  headers?:
+    | Record<string, string>
+    | (() => Record<string, string> | Promise<Record<string, string>>);
+  /** Surcharges des conventions de routes par opération */
+  routes?: {
+    create?: RouteDefinition<TCreate>;
+    update?: RouteDefinition<TUpdate>;
+    delete?: RouteDefinition<TDelete>;
+    getOne?: RouteDefinition<string>;
+    getMany?: RouteDefinition<void>;
+  };
+  /** Sérialisation des ReadOptions en paramètres de requête */
+  serializeParams?: (params: Partial<TReadParams>) => URLSearchParams | string;
+  /** Interprétation du corps de réponse de getMany */
+  parseManyResponse?: (body: unknown) => ReadManyResult<TEntity>;
+}
+
+/**
+ * Sérialisation par défaut des ReadOptions en paramètres de requête
+ *
+ * - pagination : `page`, `limit`, `offset`, `cursor`
+ * - filtre : `filter[champ]=valeur`, tableaux répétés, opérateurs et composition
+ *   en crochets (voir `serializeFilter`)
+ * - tri : `sort=champ,-autreChamp`
+ * - inclusions : `include=a,b`
+ * - recherche : `search=terme`
+ *
+ * @param params Paramètres de lecture
+ * @returns Paramètres de requête
+ */
+export function serializeReadOptions(
+  params: Partial<ReadOptions>
+): URLSearchParams {
+  const query = new URLSearchParams();
+  const { pagination, filter, sort, includes, search } = params;
+
+  if (pagination) {
+    (["page", "limit", "offset", "cursor"] as const).forEach((key) => {
+      if (pagination[key] !== undefined) {
+        query.set(key, String(pagination[key]));
+      }
+    });
+  }
+
+  if (filter) {
+    serializeFilter(filter, query);
+  }
+
+  const sortOptions = normalizeSort(sort);
+  if (sortOptions.length > 0) {
+    query.set(
+      "sort",
+      sortOptions
+        .map(({ field, direction }) =>
+          direction === "desc" ? `-${field}` : field
+        )
+        .join(",")
+    );
+  }
+
+  if (includes && includes.length > 0) {
+    query.set("include", includes.join(","));
+  }
+
+  if (search) {
+    query.set("search", search);
+  }
+
+  return query;
+}
+
+/**
+ * Extrait l'identifiant requis par les routes de mise à jour et de suppression
+ */
+function requireId(data: unknown, operation: string): string {
+  const id = (data as EntityBase | null)?.id;
+  if (!id) {
+    throw new Error(`Missing entity ID for ${operation} request`);
+  }
+  return id;
+}
+
+/**
+ * Valeur d'en-tête If-Match d'une version : un ETag est transmis tel quel,
+ * un numéro de version est mis entre guillemets
+ */
+function toIfMatch(version: number | string): string {
+  return typeof version === "number" ? `"${version}"` : version;
+}
+
+/**
+ * Reporte l'ETag de la réponse dans la version d'une entité qui n'en déclare pas
+ */
+function withEtagVersion(body: unknown, response: Response): unknown {
+  const etag = response.headers?.get("ETag");
+  if (
+    !etag ||
+    !body ||
+    typeof body !== "object" ||
+    Array.isArray(body) ||
+    (body as EntityBase).version !== undefined
+  ) {
+    return body;
+  }
+  return { ...body, version: etag };
+}
+
+/**
+ * Lit le corps d'une réponse en JSON si possible, en texte sinon
+ */
+async function readBody(response: Response): Promise<unknown> {
+  if (response.status === 204) {
+    return undefined;
+  }
+
+  const text = await response.text();
+  if (!text) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Crée l'objet `api` d'un CrudService à partir de conventions REST
+ *
+ * Conventions par défaut :
+ * - create : `POST /`
+ * - update : `PATCH /:id`
+ * - delete : `DELETE /:id`
+ * - getOne : `GET /:id`
+ * - getMany : `GET /`
+ *
+ * Concurrence optimiste : la version des données de mise à jour et de suppression est
+ * envoyée dans l'en-tête `If-Match`, et l'ETag des réponses unitaires alimente la version
+ * des entités qui n'en déclarent pas. Un statut 409 ou 412 produit un ConflictError.
+ *
+ * @template TEntity Type de l'entité retournée par l'API
+ * @template TCreate Type des données envoyées à la création
+ * @template TUpdate Type des données envoyées à la mise à jour
+ * @template TDelete Type des données de suppression
+ * @template TReadParams Type des paramètres de lecture
+ * @param options Configuration de l'adaptateur
+ * @returns Objet `api` utilisable par CrudService
+ */
+export function createRestAdapter<
+  TEntity,
+  TCreate = Omit<TEntity, "id">,
+  TUpdate = Partial<TEntity> & { id: string },
+  TDelete = { id: string },
+  TReadParams extends ReadOptions = ReadOptions
+>(
+  options: RestAdapterOptions<TEntity, TCreate, TUpdate, TDelete, TReadParams>
+) {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const fetchImpl: FetchLike =
+    options.fetch ?? ((input, init) => fetch(input, init));
+  const serializeParams =
+    options.serializeParams ??
+    ((params: Partial<TReadParams>) => serializeReadOptions(params));
+  const routes = options.routes ?? {};
+
+  // Exécution d'une requête et conversion des échecs en erreurs typées
+  const request = async (
+    method: HttpMethod,
+    path: string,
+    init: {
+      body?: unknown;
+      params?: Partial<TReadParams>;
+      context?: ApiCallContext;
+      // Version attendue côté serveur (en-tête If-Match)
+      version?: number | string;
+      // Réponse portant une entité unitaire, versionnée par son ETag
+      entity?: boolean;
+    } = {}
+  ): Promise<unknown> => {
+    const { body, params, context, version } = init;
+    const query = params ? serializeParams(params).toString() : "";
+    const url = `${baseUrl}${path}${query ? `?${query}` : ""}`;
+
+    const extraHeaders =
+      typeof options.headers === "function"
+        ? await options.headers()
+        : options.headers;
+
+    let response: Response;
+    try {
+      response = await fetchImpl(url, {
+        method,
+        headers: {
+          Accept: "application/json",
+          ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+          ...(version !== undefined ? { "If-Match": toIfMatch(version) } : {}),
+          ...extraHeaders,
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: context?.signal,
+      });
+    } catch (error) {
+      // Une requête annulée n'est pas une défaillance réseau
+      if (context?.signal?.aborted) {
+        throw new CancelledError(`${method} ${url} was cancelled`, {
+          cause: error,
+        });
+      }
+      throw new NetworkError(`${method} ${url} could not be sent`, {
+        cause: error,
+      });
+    }
+
+    const responseBody = await readBody(response);
+    if (!response.ok) {
+      throw createHttpError(
+        response.status,
+        `${method} ${url} failed with status ${response.status}`,
+        { details: responseBody }
+      );
+    }
+
+    return init.entity ? withEtagVersion(responseBody, response) : responseBody;
+  };
+
+  return {
+    create: async (data: TCreate, context?: ApiCallContext): Promise<TEntity> =>
+      (await request(
+        routes.create?.method ?? "POST",
+        routes.create?.path?.(data) ?? "",
+        { body: data, context, entity: true }
+      )) as TEntity,
+
+    update: async (data: TUpdate, context?: ApiCallContext): Promise<TEntity> =>
+      (await request(
+        routes.update?.method ?? "PATCH",
+        routes.update?.path?.(data) ??
+          `/${encodeURIComponent(requireId(data, "update"))}`,
+        {
+          body: data,
+          context,
+          version: (data as EntityBase | null)?.version,
+          entity: true,
+        }
+      )) as TEntity,
+
+    delete: async (data: TDelete, context?: ApiCallContext): Promise<unknown> =>
+      request(
+        routes.delete?.method ?? "DELETE",
+        routes.delete?.path?.(data) ??
+          `/${encodeURIComponent(requireId(data, "delete"))}`,
+        { context, version: (data as EntityBase | null)?.version }
+      ),
+
+    getOne: async (
+      id: string,
+      params?: Omit<TReadParams, "pagination">,
+      context?: ApiCallContext
+    ): Promise<TEntity> =>
+      (await request(
+        routes.getOne?.method ?? "GET",
+        routes.getOne?.path?.(id) ?? `/${encodeURIComponent(id)}`,
+        {
+          params: params as Partial<TReadParams> | undefined,
+          context,
+          entity: true,
+        }
+      )) as TEntity,
+
+    getMany: async (
+      params?: TReadParams,
+      context?: ApiCallContext
+    ): Promise<ReadManyResult<TEntity>> => {
+      const body = await request(
+        routes.getMany?.method ?? "GET",
+        routes.getMany?.path?.() ?? "",
+        { params, context }
+      );
+
+      if (options.parseManyResponse) {
+        return options.parseManyResponse(body);
+      }
+
+      // Une réponse tableau est acceptée comme une collection sans métadonnées
+      return Array.isArray(body)
+        ? { data: body as TEntity[] }
+        : (body as ReadManyResult<TEntity>);
+    },
+  };
+}
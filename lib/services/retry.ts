@@ -0,0 +1,223 @@
+/**
+ * Politiques de résilience des opérations CRUD
+ * Relance avec attente exponentielle, délai maximal et annulation par tentative
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import {
+  CancelledError,
+  CrudError,
+  TimeoutError,
+  toCrudError,
+} from "../types/errors";
+
+/**
+ * Politique de relance d'une opération
+ */
+export interface RetryPolicy {
+  /** Nombre total de tentatives, première incluse (par défaut : 1, aucune relance) */
+  maxAttempts?: number;
+  /** Attente avant la première relance en millisecondes (par défaut : 200) */
+  baseDelayMs?: number;
+  /** Attente maximale entre deux tentatives en millisecondes (par défaut : 5000) */
+  maxDelayMs?: number;
+  /** Facteur de croissance exponentielle (par défaut : 2) */
+  factor?: number;
+  /** Applique une variation aléatoire à l'attente pour éviter les rafales (par défaut : true) */
+  jitter?: boolean;
+  /** Détermine si une erreur justifie une nouvelle tentative */
+  retryOn?: (error: CrudError, attempt: number) => boolean;
+}
+
+/**
+ * Options d'un appel de service, prioritaires sur la configuration du service
+ */
+export interface CrudCallOptions {
+  retry?: RetryPolicy;
+  /** Délai maximal d'une tentative en millisecondes */
+  timeoutMs?: number;
+  /** Notifié au début de chaque tentative (1 pour la première) */
+  onAttempt?: (attempt: number) => void;
+  /** Signal d'annulation de l'appel, transmis à l'API à chaque tentative */
+  signal?: AbortSignal;
+}
+
+/**
+ * Prédicat de relance par défaut : erreurs réseau, délais dépassés,
+ * limitation de débit et erreurs serveur
+ */
+export function isTransientError(error: CrudError): boolean {
+  if (error.kind === "network" || error.kind === "timeout") {
+    return true;
+  }
+  return (
+    error.status !== undefined && (error.status === 429 || error.status >= 500)
+  );
+}
+
+/**
+ * Calcule l'attente précédant une nouvelle tentative
+ *
+ * @param attempt Numéro de la tentative qui vient d'échouer (1 pour la première)
+ * @param policy Politique de relance
+ * @returns Attente en millisecondes
+ */
+export function computeBackoff(attempt: number, policy: RetryPolicy): number {
+  const base = policy.baseDelayMs ?? 200;
+  const factor = policy.factor ?? 2;
+  const delay = Math.min(
+    policy.maxDelayMs ?? 5000,
+    base * Math.pow(factor, attempt - 1)
+  );
+
+  // Variation « equal jitter » : la moitié de l'attente est conservée
+  return policy.jitter === false
+    ? delay
+    : delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Attend un délai, interrompu si le signal est annulé
+ */
+function sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError("Operation cancelled"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Exécute une tentative avec son propre AbortSignal
+ * Le signal de la tentative est annulé si le signal parent l'est ou si le délai est dépassé
+ *
+ * @param task Tâche recevant le signal de la tentative
+ * @param timeoutMs Délai maximal (aucune limite si absent)
+ * @param parentSignal Signal d'annulation de l'appel
+ * @returns Résultat de la tâche
+ * @throws TimeoutError si le délai est dépassé, CancelledError si l'appel est annulé
+ */
+export function runAttempt<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  timeoutMs?: number,
+  parentSignal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+
+  return new Promise<T>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = (callback: () => void) => {
+      clearTimeout(timer);
+      parentSignal?.removeEventListener("abort", onAbort);
+      callback();
+    };
+    const onAbort = () => {
+      controller.abort();
+      settle(() => reject(new CancelledError("Operation cancelled")));
+    };
+
+    if (parentSignal?.aborted) {
+      onAbort();
+      return;
+    }
+    parentSignal?.addEventListener("abort", onAbort, { once: true });
+
+    if (timeoutMs !== undefined && timeoutMs > 0) {
+      timer = setTimeout(() => {
+        controller.abort();
+        settle(() =>
+          reject(new TimeoutError(`Operation timed out after ${timeoutMs}ms`))
+        );
+      }, timeoutMs);
+    }
+
+    task(controller.signal).then(
+      (value) => settle(() => resolve(value)),
+      (error) => settle(() => reject(error))
+    );
+  });
+}
+
+/**
+ * Attend une promesse partagée, en rejetant pour l'appelant seul si son signal est annulé
+ * La promesse elle-même poursuit son exécution pour ses autres consommateurs
+ *
+ * @param promise Promesse partagée
+ * @param signal Signal d'annulation de l'appelant
+ * @returns Promesse propre à l'appelant
+ */
+export function awaitWithSignal<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new CancelledError("Operation cancelled"));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Exécute une tâche avec relances et délai maximal par tentative
+ * L'annulation du signal interrompt la tentative en cours comme l'attente entre deux tentatives
+ *
+ * @param task Tâche à exécuter, recevant le numéro de tentative et son signal
+ * @param options Politique de relance, délai, signal et observateur de tentatives
+ * @returns Résultat de la première tentative réussie
+ * @throws Dernière erreur rencontrée lorsque les relances sont épuisées
+ */
+export async function withRetry<T>(
+  task: (attempt: number, signal: AbortSignal) => Promise<T>,
+  options: CrudCallOptions = {}
+): Promise<T> {
+  const policy = options.retry ?? {};
+  const maxAttempts = Math.max(1, policy.maxAttempts ?? 1);
+  const retryOn = policy.retryOn ?? isTransientError;
+
+  for (let attempt = 1; ; attempt++) {
+    options.onAttempt?.(attempt);
+
+    try {
+      return await runAttempt(
+        (signal) => task(attempt, signal),
+        options.timeoutMs,
+        options.signal
+      );
+    } catch (error) {
+      if (
+        options.signal?.aborted ||
+        attempt >= maxAttempts ||
+        !retryOn(toCrudError(error), attempt)
+      ) {
+        throw error;
+      }
+
+      await sleep(computeBackoff(attempt, policy), options.signal);
+    }
+  }
+}
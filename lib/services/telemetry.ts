@@ -0,0 +1,116 @@
+/**
+ * Journalisation et télémétrie des opérations CRUD
+ * Remplace les sorties console par des événements structurés routables et expurgés
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { CrudError, CrudOperation } from "../types/errors";
+
+/**
+ * Événement structuré émis à la fin de chaque opération CRUD
+ */
+export interface CrudLogEvent {
+  entityName: string;
+  operation: CrudOperation;
+  outcome: "success" | "error" | "cancelled";
+  /** Durée de l'opération en millisecondes */
+  durationMs: number;
+  /** Données d'entrée de l'opération, expurgées selon les règles configurées */
+  payload?: unknown;
+  error?: CrudError;
+  /** Bilan des opérations par lot */
+  batch?: { total: number; succeeded: number; failed: number };
+}
+
+/**
+ * Contrat d'un logger injectable dans CrudService
+ */
+export interface CrudLogger {
+  log(event: CrudLogEvent): void;
+}
+
+/**
+ * Règles d'expurgation appliquées aux payloads avant émission
+ *
+ * Un champ simple (ex: "password") est masqué à toute profondeur,
+ * un chemin pointé (ex: "owner.email") uniquement à cet emplacement.
+ * Les index de tableaux sont ignorés dans les chemins (ex: "items.price").
+ */
+export interface RedactionRules {
+  fields: string[];
+  replacement?: unknown;
+}
+
+/**
+ * Logger par défaut : aucune émission
+ */
+export const silentLogger: CrudLogger = {
+  log: () => undefined,
+};
+
+/**
+ * Logger de développement reproduisant l'ancien comportement console
+ */
+export const consoleLogger: CrudLogger = {
+  log: (event) => {
+    const label = `${event.operation} ${event.entityName} (${event.durationMs}ms)`;
+    if (event.outcome === "error") {
+      console.error(`Error during ${label}:`, event.error, event.payload);
+    } else {
+      console.debug(`${label}:`, event.payload);
+    }
+  },
+};
+
+/**
+ * Vérifie qu'une valeur est un objet littéral parcourable
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Produit une copie expurgée d'un payload selon les règles fournies
+ * Le payload d'origine n'est jamais modifié
+ *
+ * @param payload Données à expurger
+ * @param rules Règles d'expurgation
+ * @returns Copie expurgée
+ */
+export function redactPayload(
+  payload: unknown,
+  rules?: RedactionRules
+): unknown {
+  if (!rules || rules.fields.length === 0) {
+    return payload;
+  }
+
+  const replacement = "replacement" in rules ? rules.replacement : "[REDACTED]";
+  const fields = new Set(rules.fields);
+
+  const visit = (value: unknown, path: string[]): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((item) => visit(item, path));
+    }
+    if (!isPlainObject(value)) {
+      return value;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => {
+        const childPath = [...path, key];
+        if (fields.has(key) || fields.has(childPath.join("."))) {
+          return [key, replacement];
+        }
+        return [key, visit(child, childPath)];
+      })
+    );
+  };
+
+  return visit(payload, []);
+}
@@ -0,0 +1,217 @@
+/**
+ * Tests des adaptateurs de validation indépendants de Zod
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { describe, expect, it } from "vitest";
+import { frMessages } from "../messages";
+import {
+  JsonSchemaError,
+  JsonSchemaValidateFunction,
+  StandardSchemaV1,
+  createJsonSchemaValidationSchema,
+  createPredicateValidationSchema,
+  createStandardValidationSchema,
+} from "../schemaAdapters";
+import { ValidationError, ValidationSchema } from "../validation";
+
+interface Project {
+  name: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Fonction de validation synchrone au format Ajv, en échec avec les erreurs données
+ */
+function failingValidate(
+  errors: JsonSchemaError[] | null
+): JsonSchemaValidateFunction {
+  return Object.assign(() => false, { errors });
+}
+
+/**
+ * Erreur de validation renvoyée par `safeParse`
+ */
+function errorOf<T>(
+  schema: ValidationSchema<T>,
+  data: unknown
+): ValidationError {
+  const result = schema.safeParse!(data);
+  if (result.success) {
+    throw new Error("Validation should fail");
+  }
+  return result.error;
+}
+
+/**
+ * Erreur de validation rejetée par `parseAsync`
+ */
+async function rejectionOf<T>(
+  schema: ValidationSchema<T>,
+  data: unknown
+): Promise<ValidationError> {
+  return schema.parseAsync!(data).then(
+    () => {
+      throw new Error("Validation should fail");
+    },
+    (error: ValidationError) => error
+  );
+}
+
+describe("createPredicateValidationSchema", () => {
+  const schema = createPredicateValidationSchema<Project>({
+    fields: {
+      name: {
+        test: (name) => (name?.length ?? 0) >= 3,
+        code: "too_small",
+        params: { type: "string", minimum: 3 },
+      },
+    },
+    form: [{ test: (p) => p.start <= p.end, message: "Période invalide" }],
+  });
+
+  it("accepte des données valides telles quelles", () => {
+    const project = { name: "Alpha", start: 1, end: 2 };
+
+    expect(schema.parse(project)).toBe(project);
+  });
+
+  it("reporte les échecs par champ et sur le formulaire", () => {
+    expect(errorOf(schema, { name: "A", start: 2, end: 1 })).toMatchObject({
+      message: "Validation failed",
+      code: "validation_failed",
+      errors: { name: "At least 3 character(s)" },
+      tree: {
+        messages: ["Période invalide"],
+        children: { name: { codes: ["too_small"] } },
+      },
+    });
+  });
+
+  it("évalue les prédicats asynchrones par parseAsync", async () => {
+    const unique = createPredicateValidationSchema<Project>({
+      fields: { name: { test: async (name) => name !== "Taken" } },
+    });
+
+    const error = await rejectionOf(unique, { name: "Taken" });
+    expect(error.errors).toEqual({ name: "Invalid value" });
+    expect(() => unique.parse({ name: "Taken" })).toThrow(
+      "Asynchronous validation requires parseAsync"
+    );
+  });
+
+  it("produit les messages du catalogue fourni", () => {
+    const localized = createPredicateValidationSchema<Project>(
+      { fields: { name: { test: () => false, code: "required" } } },
+      { messages: frMessages }
+    );
+
+    expect(errorOf(localized, {})).toMatchObject({
+      message: "La validation a échoué",
+      errors: { name: "Ce champ est requis" },
+    });
+  });
+});
+
+describe("createJsonSchemaValidationSchema", () => {
+  it("convertit les mots-clés connus en codes et messages du catalogue", () => {
+    const schema = createJsonSchemaValidationSchema(
+      failingValidate([
+        {
+          instancePath: "",
+          keyword: "required",
+          params: { missingProperty: "name" },
+        },
+        {
+          instancePath: "/lines/0/quantity",
+          keyword: "exclusiveMinimum",
+          params: { limit: 0 },
+        },
+        {
+          instancePath: "/status",
+          keyword: "enum",
+          params: { allowedValues: ["draft", "done"] },
+        },
+        {
+          instancePath: "/a~1b",
+          keyword: "if",
+          params: {},
+          message: 'must match "then" schema',
+        },
+      ])
+    );
+
+    const error = errorOf(schema, {});
+    expect(error.errors).toEqual({
+      name: "This field is required",
+      "lines.0.quantity": "Must be greater than 0",
+      status: "Invalid value",
+      "a/b": 'must match "then" schema',
+    });
+    expect(error.tree?.children.status.codes).toEqual(["invalid_value"]);
+  });
+
+  it("rejette un échec sans détail par une erreur générique", () => {
+    const schema = createJsonSchemaValidationSchema(failingValidate(null));
+
+    expect(errorOf(schema, {}).tree).toEqual({
+      messages: ["Invalid value"],
+      codes: ["invalid_value"],
+      children: {},
+    });
+  });
+
+  it("rejette un schéma asynchrone en échec, avec ou sans erreurs", async () => {
+    const withErrors = createJsonSchemaValidationSchema(() =>
+      Promise.reject({
+        errors: [
+          { instancePath: "/name", keyword: "minLength", params: { limit: 3 } },
+        ],
+      })
+    );
+    const withoutErrors = createJsonSchemaValidationSchema(() =>
+      Promise.reject({ errors: [] })
+    );
+
+    expect((await rejectionOf(withErrors, {})).errors).toEqual({
+      name: "At least 3 character(s)",
+    });
+    expect((await rejectionOf(withoutErrors, {})).tree?.codes).toEqual([
+      "invalid_value",
+    ]);
+  });
+
+  it("accepte les données d'un schéma asynchrone résolu", async () => {
+    const schema = createJsonSchemaValidationSchema(() =>
+      Promise.resolve(true)
+    );
+
+    await expect(schema.parseAsync!({ name: "Alpha" })).resolves.toEqual({
+      name: "Alpha",
+    });
+  });
+});
+
+describe("createStandardValidationSchema", () => {
+  it("reprend les messages et chemins du validateur", () => {
+    const schema: StandardSchemaV1<unknown, Project> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: () => ({
+          issues: [
+            { message: "Too short", path: ["name"] },
+            { message: "Bad line", path: [{ key: "lines" }, { key: 0 }] },
+          ],
+        }),
+      },
+    };
+
+    expect(errorOf(createStandardValidationSchema(schema), {}).errors).toEqual({
+      name: "Too short",
+      "lines.0": "Bad line",
+    });
+  });
+});
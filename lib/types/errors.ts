@@ -0,0 +1,357 @@
+/**
+ * Taxonomie structurée des erreurs CRUD
+ * Ce fichier établit le contrat d'erreur partagé entre la couche infrastructure et la couche logique métier
+ *
+ * Chaque erreur porte une nature discriminante (`kind`), l'entité et l'opération concernées
+ * ainsi que la cause d'origine, afin que l'UI puisse brancher sur `error.kind`
+ * plutôt que sur le contenu des messages.
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import {
+  createErrorTree,
+  createValidationError,
+  toValidationIssues,
+  ValidationError,
+  ValidationErrorTree,
+} from "./validation";
+
+/**
+ * Opérations CRUD pouvant produire une erreur
+ */
+export type CrudOperation =
+  | "create"
+  | "update"
+  | "delete"
+  | "getOne"
+  | "getByIds"
+  | "getMany"
+  | "createMany"
+  | "updateMany"
+  | "deleteMany";
+
+/**
+ * Nature discriminante d'une erreur CRUD
+ */
+export type CrudErrorKind =
+  | "not-found"
+  | "conflict"
+  | "unauthorized"
+  | "validation"
+  | "network"
+  | "timeout"
+  | "not-implemented"
+  | "cancelled"
+  | "unknown";
+
+/**
+ * Contexte d'une erreur CRUD
+ */
+export interface CrudErrorContext {
+  entityName?: string;
+  operation?: CrudOperation;
+}
+
+/**
+ * Options de construction d'une erreur CRUD
+ */
+export interface CrudErrorOptions extends CrudErrorContext {
+  /** Erreur d'origine */
+  cause?: unknown;
+  /** Statut HTTP éventuel */
+  status?: number;
+  /** Informations complémentaires (ex: corps de réponse) */
+  details?: unknown;
+}
+
+/**
+ * Erreur de base de la taxonomie CRUD
+ * Le contexte (entité, opération) peut être complété lors de la remontée vers CrudService
+ */
+export class CrudError extends Error {
+  readonly kind: CrudErrorKind = "unknown";
+  entityName?: string;
+  operation?: CrudOperation;
+  readonly cause?: unknown;
+  readonly status?: number;
+  readonly details?: unknown;
+
+  constructor(message: string, options: CrudErrorOptions = {}) {
+    super(message);
+    // Préserve la chaîne de prototypes pour instanceof en compilation ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.entityName = options.entityName;
+    this.operation = options.operation;
+    this.cause = options.cause;
+    this.status = options.status;
+    this.details = options.details;
+  }
+}
+
+export class NotFoundError extends CrudError {
+  readonly kind = "not-found";
+}
+
+/**
+ * Conflit d'écriture (version obsolète, doublon)
+ * Porte la copie locale envoyée et, lorsqu'elle est connue, la copie courante du serveur
+ * afin que l'UI puisse proposer une fusion
+ */
+export class ConflictError<TEntity = unknown> extends CrudError {
+  readonly kind = "conflict";
+  local?: TEntity;
+  server?: TEntity;
+
+  constructor(
+    message: string,
+    copies: { local?: TEntity; server?: TEntity } = {},
+    options: CrudErrorOptions = {}
+  ) {
+    super(message, options);
+    this.local = copies.local;
+    this.server = copies.server;
+  }
+}
+
+export class UnauthorizedError extends CrudError {
+  readonly kind = "unauthorized";
+}
+
+export class NetworkError extends CrudError {
+  readonly kind = "network";
+}
+
+export class TimeoutError extends CrudError {
+  readonly kind = "timeout";
+}
+
+export class NotImplementedError extends CrudError {
+  readonly kind = "not-implemented";
+}
+
+/**
+ * Opération interrompue via AbortSignal (requête remplacée, démontage, annulation explicite)
+ * Ce n'est pas un échec : la couche logique métier ne la reporte pas dans `OperationState.error`
+ */
+export class CancelledError extends CrudError {
+  readonly kind = "cancelled";
+}
+
+/**
+ * Erreur de validation
+ * Respecte l'interface ValidationError afin de rester compatible avec les consommateurs existants
+ */
+export class CrudValidationError extends CrudError implements ValidationError {
+  readonly kind = "validation";
+  path?: (string | number)[];
+  errors?: Record<string, string>;
+  tree?: ValidationErrorTree;
+  code?: string;
+
+  constructor(
+    message: string,
+    validation: Omit<ValidationError, "message"> = {},
+    options: CrudErrorOptions = {}
+  ) {
+    super(message, options);
+    this.path = validation.path;
+    this.errors = validation.errors;
+    // Arbre déduit du dictionnaire lorsque la source n'en fournit pas
+    this.tree =
+      validation.tree ??
+      (validation.errors
+        ? createErrorTree(toValidationIssues(validation.errors, "custom"))
+        : undefined);
+    this.code = validation.code ?? "validation_failed";
+  }
+}
+
+/**
+ * Extrait les erreurs d'un corps de réponse de validation
+ * (`errors` en dictionnaire ou en liste, `detail` ou `issues` en liste)
+ */
+function extractValidation(body: unknown): Omit<ValidationError, "message"> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return {};
+  }
+  const { errors, detail, issues } = body as Record<string, unknown>;
+  const validationIssues = toValidationIssues(
+    errors ?? (Array.isArray(detail) ? detail : undefined) ?? issues
+  );
+  return validationIssues.length > 0
+    ? createValidationError(validationIssues)
+    : {};
+}
+
+/**
+ * Extrait la copie serveur d'un corps de réponse de conflit
+ * (`{ current }`, `{ server }` ou l'entité courante elle-même)
+ */
+function extractServerCopy(body: unknown): unknown {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return undefined;
+  }
+  const { current, server } = body as { current?: unknown; server?: unknown };
+  if (current !== undefined || server !== undefined) {
+    return current ?? server;
+  }
+  return "id" in body ? body : undefined;
+}
+
+/**
+ * Crée l'erreur typée correspondant à un statut HTTP
+ *
+ * @param status Statut HTTP de la réponse
+ * @param message Message de l'erreur
+ * @param options Contexte et détails (corps de réponse)
+ * @returns Erreur de la taxonomie CRUD
+ */
+export function createHttpError(
+  status: number,
+  message: string,
+  options: CrudErrorOptions = {}
+): CrudError {
+  const errorOptions = { ...options, status };
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new CrudValidationError(
+        message,
+        extractValidation(options.details),
+        errorOptions
+      );
+    case 401:
+    case 403:
+      return new UnauthorizedError(message, errorOptions);
+    case 404:
+    case 410:
+      return new NotFoundError(message, errorOptions);
+    case 409:
+    case 412:
+      return new ConflictError(
+        message,
+        { server: extractServerCopy(options.details) },
+        errorOptions
+      );
+    case 408:
+    case 504:
+      return new TimeoutError(message, errorOptions);
+    default:
+      return new CrudError(message, errorOptions);
+  }
+}
+
+/**
+ * Vérifie qu'une erreur est un conflit d'écriture, en exposant ses copies locale et serveur
+ */
+export function isConflictError<TEntity = unknown>(
+  error: unknown
+): error is ConflictError<TEntity> {
+  return error instanceof ConflictError;
+}
+
+/**
+ * Vérifie qu'une valeur est un dictionnaire de messages par champ
+ */
+function isFieldErrorMap(value: unknown): value is Record<string, string> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.values(value).every((message) => typeof message === "string")
+  );
+}
+
+/**
+ * Détecte une erreur de validation issue de la couche validation
+ * Un marqueur explicite est exigé (ZodError, code "validation_failed", dictionnaire
+ * d'erreurs par champ ou statut 400/422) : un simple `message` ou une liste `errors`
+ * (ex: AggregateError) ne suffit pas
+ */
+function isValidationLike(error: unknown): error is ValidationError {
+  if (!error || typeof error !== "object") {
+    return false;
+  }
+  const candidate = error as {
+    name?: unknown;
+    message?: unknown;
+    issues?: unknown;
+    errors?: unknown;
+    code?: unknown;
+    status?: unknown;
+  };
+  if (error instanceof Error && candidate.name === "ZodError") {
+    return Array.isArray(candidate.issues);
+  }
+  if (typeof candidate.message !== "string") {
+    return false;
+  }
+  return (
+    candidate.code === "validation_failed" ||
+    isFieldErrorMap(candidate.errors) ||
+    candidate.status === 400 ||
+    candidate.status === 422
+  );
+}
+
+/**
+ * Normalise une erreur quelconque vers la taxonomie CRUD
+ * Une erreur déjà typée est conservée et son contexte complété si nécessaire
+ *
+ * @param error Erreur d'origine
+ * @param context Entité et opération en cours
+ * @returns Erreur de la taxonomie CRUD
+ */
+export function toCrudError(
+  error: unknown,
+  context: CrudErrorContext = {}
+): CrudError {
+  if (error instanceof CrudError) {
+    if (!error.entityName) {
+      error.entityName = context.entityName;
+    }
+    if (!error.operation) {
+      error.operation = context.operation;
+    }
+    return error;
+  }
+
+  const options: CrudErrorOptions = { ...context, cause: error };
+
+  if (isValidationLike(error)) {
+    // Les erreurs Zod brutes exposent une liste d'issues plutôt qu'un dictionnaire
+    const issues = (error as { issues?: unknown }).issues;
+    const validation = Array.isArray(issues)
+      ? createValidationError(toValidationIssues(issues))
+      : error;
+
+    return new CrudValidationError(
+      error.message,
+      {
+        path: validation.path,
+        errors: validation.errors,
+        tree: validation.tree,
+        code: validation.code,
+      },
+      options
+    );
+  }
+
+  if (error instanceof Error) {
+    if (error.name === "AbortError") {
+      return new CancelledError(error.message, options);
+    }
+    if (error.name === "TimeoutError") {
+      return new TimeoutError(error.message, options);
+    }
+    if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+      return new NetworkError(error.message, options);
+    }
+    return new CrudError(error.message, options);
+  }
+
+  return new CrudError(String(error), options);
+}
@@ -0,0 +1,141 @@
+/**
+ * Codes et messages des erreurs de validation
+ * Chaque échec de validation porte un code stable, destiné aux traitements automatisés,
+ * et un message issu d'un catalogue interchangeable, destiné à l'affichage
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+/**
+ * Codes d'erreur de validation
+ * D'autres codes (validateurs personnalisés, serveur) restent admis
+ */
+export type ValidationErrorCode =
+  | "validation_failed" // Erreur globale d'une validation en échec
+  | "required"
+  | "invalid_type"
+  | "too_small"
+  | "too_big"
+  | "invalid_format"
+  | "invalid_value"
+  | "invalid_date"
+  | "custom"
+  | "server"
+  | "unknown";
+
+/**
+ * Paramètres d'un message (bornes, format attendu...)
+ */
+export type MessageParams = Record<string, unknown>;
+
+/**
+ * Modèle de message : texte à paramètres `{nom}` ou fonction des paramètres
+ */
+export type MessageTemplate = string | ((params: MessageParams) => string);
+
+/**
+ * Catalogue de messages par code
+ */
+export type MessageCatalogue = Partial<
+  Record<ValidationErrorCode | (string & {}), MessageTemplate>
+>;
+
+/**
+ * Unité d'une borne selon le type de valeur contrôlée
+ */
+const frUnits: Record<string, string> = {
+  string: "caractère(s)",
+  array: "élément(s)",
+  set: "élément(s)",
+};
+
+const enUnits: Record<string, string> = {
+  string: "character(s)",
+  array: "item(s)",
+  set: "item(s)",
+};
+
+/**
+ * Catalogue français, à transmettre en option des validations
+ */
+export const frMessages: MessageCatalogue = {
+  validation_failed: "La validation a échoué",
+  required: "Ce champ est requis",
+  invalid_type: "Type attendu : {expected}",
+  too_small: ({ type, minimum, exact, exclusive }) =>
+    frUnits[String(type)]
+      ? `${exact ? "Exactement" : "Au moins"} ${minimum} ${
+          frUnits[String(type)]
+        }`
+      : exclusive
+      ? `Doit être strictement supérieur à ${minimum}`
+      : `Doit être supérieur ou égal à ${minimum}`,
+  too_big: ({ type, maximum, exact, exclusive }) =>
+    frUnits[String(type)]
+      ? `${exact ? "Exactement" : "Au plus"} ${maximum} ${
+          frUnits[String(type)]
+        }`
+      : exclusive
+      ? `Doit être strictement inférieur à ${maximum}`
+      : `Doit être inférieur ou égal à ${maximum}`,
+  invalid_format: ({ format }) =>
+    format === "email" ? "Adresse e-mail invalide" : "Format invalide",
+  invalid_value: "Valeur invalide",
+  invalid_date: "Date invalide",
+  custom: "Valeur invalide",
+  server: "Valeur refusée par le serveur",
+  unknown: "Erreur inconnue",
+};
+
+/**
+ * Catalogue anglais (par défaut)
+ */
+export const enMessages: MessageCatalogue = {
+  validation_failed: "Validation failed",
+  required: "This field is required",
+  invalid_type: "Expected {expected}",
+  too_small: ({ type, minimum, exact, exclusive }) =>
+    enUnits[String(type)]
+      ? `${exact ? "Exactly" : "At least"} ${minimum} ${enUnits[String(type)]}`
+      : exclusive
+      ? `Must be greater than ${minimum}`
+      : `Must be greater than or equal to ${minimum}`,
+  too_big: ({ type, maximum, exact, exclusive }) =>
+    enUnits[String(type)]
+      ? `${exact ? "Exactly" : "At most"} ${maximum} ${enUnits[String(type)]}`
+      : exclusive
+      ? `Must be less than ${maximum}`
+      : `Must be less than or equal to ${maximum}`,
+  invalid_format: ({ format }) =>
+    format === "email" ? "Invalid email address" : "Invalid format",
+  invalid_value: "Invalid value",
+  invalid_date: "Invalid date",
+  custom: "Invalid value",
+  server: "Rejected by the server",
+  unknown: "Unknown error",
+};
+
+/**
+ * Produit le message d'un code
+ *
+ * @param code Code d'erreur
+ * @param params Paramètres du message
+ * @param catalogue Catalogue (par défaut : catalogue anglais, repli des codes absents)
+ * @returns Message, ou le code lui-même s'il n'est connu d'aucun catalogue
+ */
+export function formatMessage(
+  code: string,
+  params: MessageParams = {},
+  catalogue: MessageCatalogue = enMessages
+): string {
+  const template = catalogue[code] ?? enMessages[code];
+  if (template === undefined) {
+    return code;
+  }
+  if (typeof template === "function") {
+    return template(params);
+  }
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
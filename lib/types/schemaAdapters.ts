@@ -0,0 +1,412 @@
+/**
+ * Adaptateurs de validation indépendants de Zod
+ * Chaque adaptateur produit un ValidationSchema dont les erreurs ont la même forme
+ * (ValidationError : dictionnaire, arbre, codes) que celles de createZodValidationSchema,
+ * afin que useCRUD et useCrudForm les exploitent indifféremment
+ *
+ * - Standard Schema : tout validateur exposant `~standard` (Valibot, ArkType, Zod 3.24+...)
+ * - prédicats : fonctions booléennes par champ ou sur l'ensemble des données
+ * - JSON Schema : fonction de validation compilée au format Ajv
+ *
+ * @author Créé le 19 octobre 2026
+ */
+
+import { formatMessage, MessageParams } from "./messages";
+import {
+  createValidationError,
+  toPathSegments,
+  ValidationIssue,
+  ValidationMessageOptions,
+  ValidationSchema,
+} from "./validation";
+
+/**
+ * Résultat d'une validation : données validées ou échecs
+ */
+export type ValidationResult<T> =
+  | { value: T; issues?: undefined }
+  | { issues: ValidationIssue[] };
+
+/**
+ * Vérifie qu'une valeur est une promesse
+ */
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return !!value && typeof (value as PromiseLike<T>).then === "function";
+}
+
+/**
+ * Crée un ValidationSchema à partir d'une fonction de validation
+ * Une validation asynchrone n'est disponible que par `parseAsync`, utilisé en priorité
+ * par useCRUD
+ *
+ * @param validate Fonction de validation, synchrone ou asynchrone
+ * @param options Catalogue des messages
+ * @returns ValidationSchema compatible avec l'architecture CRUD
+ */
+export function createValidationSchema<T>(
+  validate: (
+    data: unknown
+  ) => ValidationResult<T> | PromiseLike<ValidationResult<T>>,
+  options: ValidationMessageOptions = {}
+): ValidationSchema<T> {
+  const toError = (issues: ValidationIssue[]) =>
+    createValidationError(
+      issues,
+      formatMessage("validation_failed", {}, options.messages)
+    );
+
+  const validateSync = (data: unknown): ValidationResult<T> => {
+    const result = validate(data);
+    if (isPromiseLike(result)) {
+      throw new Error("Asynchronous validation requires parseAsync");
+    }
+    return result;
+  };
+
+  const unwrap = (result: ValidationResult<T>): T => {
+    if (result.issues) {
+      throw toError(result.issues);
+    }
+    return result.value;
+  };
+
+  return {
+    parse: (data: unknown): T => unwrap(validateSync(data)),
+
+    parseAsync: async (data: unknown): Promise<T> =>
+      unwrap(await validate(data)),
+
+    safeParse: (data: unknown) => {
+      const result = validateSync(data);
+      return result.issues
+        ? { success: false, error: toError(result.issues) }
+        : { success: true, data: result.value };
+    },
+  };
+}
+
+/**
+ * Contrat Standard Schema (v1), limité à ce qu'utilise l'adaptateur
+ * @see https://standardschema.dev
+ */
+export interface StandardSchemaV1<TInput = unknown, TOutput = TInput> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<TOutput> | Promise<StandardSchemaResult<TOutput>>;
+    readonly types?: { readonly input: TInput; readonly output: TOutput };
+  };
+}
+
+/**
+ * Résultat d'une validation Standard Schema
+ */
+export type StandardSchemaResult<TOutput> =
+  | { readonly value: TOutput; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<
+          PropertyKey | { readonly key: PropertyKey }
+        >;
+      }>;
+    };
+
+/**
+ * Adaptateur pour un validateur Standard Schema
+ * Les messages sont ceux du validateur ; les échecs portent le code "custom"
+ *
+ * @param schema Validateur exposant `~standard`
+ * @param options Catalogue du message global
+ * @returns ValidationSchema compatible avec l'architecture CRUD
+ */
+export function createStandardValidationSchema<T>(
+  schema: StandardSchemaV1<unknown, T>,
+  options: ValidationMessageOptions = {}
+): ValidationSchema<T> {
+  const toResult = (result: StandardSchemaResult<T>): ValidationResult<T> =>
+    result.issues
+      ? {
+          issues: result.issues.map((issue) => ({
+            path: (issue.path ?? []).map((segment) => {
+              const key = typeof segment === "object" ? segment.key : segment;
+              return typeof key === "number" ? key : String(key);
+            }),
+            message: issue.message,
+            code: "custom",
+          })),
+        }
+      : { value: result.value };
+
+  return createValidationSchema((data) => {
+    const result = schema["~standard"].validate(data);
+    return isPromiseLike<StandardSchemaResult<T>>(result)
+      ? result.then(toResult)
+      : toResult(result);
+  }, options);
+}
+
+/**
+ * Règle de validation par prédicat
+ * La valeur contrôlée est celle du champ, ou les données complètes pour une règle
+ * de formulaire ; les données reçues n'étant pas encore validées, un champ peut être absent
+ */
+export interface PredicateRule<T, TValue = unknown> {
+  /** Prédicat de validité, éventuellement asynchrone */
+  test: (value: TValue, data: T) => boolean | Promise<boolean>;
+  /** Message d'échec (par défaut : message du code dans le catalogue) */
+  message?: string;
+  /** Code de l'échec (par défaut : "custom") */
+  code?: string;
+  /** Paramètres du message */
+  params?: MessageParams;
+}
+
+/**
+ * Règles par champ, et règles sur l'ensemble des données (erreurs du formulaire)
+ */
+export interface PredicateRules<T> {
+  fields?: {
+    [K in keyof T]?:
+      | PredicateRule<T, T[K] | undefined>
+      | PredicateRule<T, T[K] | undefined>[];
+  };
+  form?: PredicateRule<T, T>[];
+}
+
+/**
+ * Adaptateur pour des prédicats
+ * Toutes les règles sont évaluées ; les données validées sont les données reçues
+ *
+ * @param rules Règles par champ et sur l'ensemble des données
+ * @param options Catalogue des messages
+ * @returns ValidationSchema compatible avec l'architecture CRUD
+ *
+ * @example
+ * createPredicateValidationSchema<Project>({
+ *   fields: { name: { test: (name) => (name?.length ?? 0) >= 3, code: "too_small", params: { minimum: 3, type: "string" } } },
+ *   form: [{ test: (p) => p.start <= p.end, message: "Période invalide" }],
+ * });
+ */
+export function createPredicateValidationSchema<T>(
+  rules: PredicateRules<T>,
+  options: ValidationMessageOptions = {}
+): ValidationSchema<T> {
+  // Règles de champ et de formulaire, appliquées à une valeur encore non validée
+  const checks = [
+    ...Object.entries(rules.fields ?? {}).flatMap(([field, fieldRules]) =>
+      ([] as PredicateRule<T>[])
+        .concat(fieldRules as PredicateRule<T> | PredicateRule<T>[])
+        .map((rule) => ({ path: [field], rule }))
+    ),
+    ...(rules.form ?? []).map((rule) => ({
+      path: [] as string[],
+      rule: rule as PredicateRule<T>,
+    })),
+  ];
+
+  const toIssue = (
+    path: string[],
+    rule: PredicateRule<T>
+  ): ValidationIssue => ({
+    path,
+    message:
+      rule.message ??
+      formatMessage(rule.code ?? "custom", rule.params, options.messages),
+    code: rule.code ?? "custom",
+    params: rule.params,
+  });
+
+  return createValidationSchema<T>((data) => {
+    const record = (data ?? {}) as T;
+    const outcomes = checks.map(({ path, rule }) => ({
+      path,
+      rule,
+      passed: rule.test(
+        path.length > 0 ? (record as Record<string, unknown>)[path[0]] : record,
+        record
+      ),
+    }));
+
+    const toResult = (passed: boolean[]): ValidationResult<T> => {
+      const issues = outcomes
+        .filter((_outcome, index) => !passed[index])
+        .map(({ path, rule }) => toIssue(path, rule));
+      return issues.length > 0 ? { issues } : { value: record };
+    };
+
+    return outcomes.some(({ passed }) => isPromiseLike(passed))
+      ? Promise.all(outcomes.map(({ passed }) => passed)).then(toResult)
+      : toResult(outcomes.map(({ passed }) => passed as boolean));
+  }, options);
+}
+
+/**
+ * Erreur produite par une fonction de validation JSON Schema (format Ajv)
+ */
+export interface JsonSchemaError {
+  /** Pointeur JSON de la valeur en échec (ex: "/lines/0/quantity") */
+  instancePath: string;
+  keyword: string;
+  params: Record<string, unknown>;
+  message?: string;
+}
+
+/**
+ * Fonction de validation JSON Schema compilée (ex: `ajv.compile(schema)`)
+ * Un schéma `$async` retourne une promesse rejetée avec les erreurs
+ */
+export interface JsonSchemaValidateFunction {
+  (data: unknown): boolean | Promise<unknown>;
+  errors?: JsonSchemaError[] | null;
+}
+
+/**
+ * Code et paramètres correspondant à chaque mot-clé JSON Schema
+ * Les paramètres reçus ne sont pas typés par le validateur : ils sont repris tels quels
+ * comme paramètres du message, ou vérifiés avant d'être exploités
+ */
+const jsonSchemaCodes: Record<
+  string,
+  (params: Record<string, unknown>) => { code: string; params: MessageParams }
+> = {
+  required: () => ({ code: "required", params: {} }),
+  type: ({ type }) => ({ code: "invalid_type", params: { expected: type } }),
+  minLength: ({ limit }) => ({
+    code: "too_small",
+    params: { type: "string", minimum: limit },
+  }),
+  maxLength: ({ limit }) => ({
+    code: "too_big",
+    params: { type: "string", maximum: limit },
+  }),
+  minItems: ({ limit }) => ({
+    code: "too_small",
+    params: { type: "array", minimum: limit },
+  }),
+  maxItems: ({ limit }) => ({
+    code: "too_big",
+    params: { type: "array", maximum: limit },
+  }),
+  minimum: ({ limit }) => ({
+    code: "too_small",
+    params: { type: "number", minimum: limit },
+  }),
+  exclusiveMinimum: ({ limit }) => ({
+    code: "too_small",
+    params: { type: "number", minimum: limit, exclusive: true },
+  }),
+  maximum: ({ limit }) => ({
+    code: "too_big",
+    params: { type: "number", maximum: limit },
+  }),
+  exclusiveMaximum: ({ limit }) => ({
+    code: "too_big",
+    params: { type: "number", maximum: limit, exclusive: true },
+  }),
+  format: ({ format }) => ({ code: "invalid_format", params: { format } }),
+  pattern: ({ pattern }) => ({
+    code: "invalid_format",
+    params: { format: "regex", pattern },
+  }),
+  enum: ({ allowedValues }) => ({
+    code: "invalid_value",
+    params: {
+      options: Array.isArray(allowedValues) ? allowedValues.join(", ") : "",
+    },
+  }),
+  const: ({ allowedValue }) => ({
+    code: "invalid_value",
+    params: { expected: allowedValue },
+  }),
+};
+
+/**
+ * Échec élémentaire d'une erreur JSON Schema
+ * Les mots-clés connus reçoivent un code et un message du catalogue ; les autres
+ * gardent le message du validateur
+ */
+function toJsonSchemaIssue(
+  error: JsonSchemaError,
+  options: ValidationMessageOptions
+): ValidationIssue {
+  const segments = toPathSegments(
+    error.instancePath
+      .split("/")
+      .filter((segment) => segment !== "")
+      .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+  );
+  const { missingProperty } = error.params;
+  const path =
+    error.keyword === "required" && typeof missingProperty === "string"
+      ? [...segments, missingProperty]
+      : segments;
+  const mapping = jsonSchemaCodes[error.keyword]?.(error.params);
+
+  return mapping
+    ? {
+        path,
+        message: formatMessage(mapping.code, mapping.params, options.messages),
+        ...mapping,
+      }
+    : {
+        path,
+        message:
+          error.message ?? formatMessage("invalid_value", {}, options.messages),
+        code: "invalid_value",
+        params: { keyword: error.keyword },
+      };
+}
+
+/**
+ * Adaptateur pour une fonction de validation JSON Schema au format Ajv
+ * Pour obtenir toutes les erreurs, compiler avec l'option `allErrors`
+ *
+ * @param validate Fonction de validation compilée
+ * @param options Catalogue des messages
+ * @returns ValidationSchema compatible avec l'architecture CRUD
+ *
+ * @example
+ * const ajv = new Ajv({ allErrors: true });
+ * addFormats(ajv);
+ * const schema = createJsonSchemaValidationSchema<Project>(ajv.compile(projectJsonSchema));
+ */
+export function createJsonSchemaValidationSchema<T>(
+  validate: JsonSchemaValidateFunction,
+  options: ValidationMessageOptions = {}
+): ValidationSchema<T> {
+  // Échec sans détail : erreur générique plutôt que données acceptées
+  const toFailure = (
+    errors: JsonSchemaError[] | null | undefined
+  ): ValidationResult<T> => ({
+    issues:
+      errors && errors.length > 0
+        ? errors.map((error) => toJsonSchemaIssue(error, options))
+        : [
+            {
+              path: [],
+              message: formatMessage("invalid_value", {}, options.messages),
+              code: "invalid_value",
+            },
+          ],
+  });
+
+  return createValidationSchema<T>((data) => {
+    const result = validate(data);
+    if (!isPromiseLike(result)) {
+      return result ? { value: data as T } : toFailure(validate.errors);
+    }
+    // Schéma `$async` : la promesse est rejetée avec une erreur portant `errors`
+    return result.then(
+      () => ({ value: data as T }),
+      (error: { errors?: JsonSchemaError[] }) => {
+        if (!Array.isArray(error?.errors)) {
+          throw error;
+        }
+        return toFailure(error.errors);
+      }
+    );
+  }, options);
+}
@@ -6,6 +6,12 @@
  */
 
 import { z } from "zod";
+import {
+  formatMessage,
+  MessageCatalogue,
+  MessageParams,
+  ValidationErrorCode,
+} from "./messages";
 
 /**
  * Interface générique pour les erreurs de validation
@@ -14,10 +20,46 @@ import { z } from "zod";
 export interface ValidationError {
   message: string;
   path?: (string | number)[];
+  /** Premier message de chaque champ, par chemin pointé (ex: "lines.0.quantity") */
   errors?: Record<string, string>;
+  /** Ensemble des erreurs, par chemin complet, erreurs du formulaire comprises */
+  tree?: ValidationErrorTree;
+  /** Code stable de l'erreur globale ("validation_failed") */
   code?: string;
 }
 
+/**
+ * Échec élémentaire de validation
+ * Un chemin vide désigne une erreur portant sur l'ensemble des données (formulaire)
+ */
+export interface ValidationIssue {
+  path: (string | number)[];
+  message: string;
+  /** Code stable de l'échec (voir ValidationErrorCode ; par défaut : "custom") */
+  code?: ValidationErrorCode | (string & {});
+  /** Paramètres du message (bornes, format attendu...) */
+  params?: MessageParams;
+}
+
+/**
+ * Arbre des erreurs de validation, calqué sur la structure des données validées
+ * Les éléments d'un tableau sont indexés par leur position
+ */
+export interface ValidationErrorTree {
+  /** Messages du nœud ; à la racine, erreurs du formulaire */
+  messages: string[];
+  /** Codes des échecs du nœud, dans l'ordre des messages */
+  codes: string[];
+  /** Sous-arbres par champ ou par index d'élément */
+  children: Record<string, ValidationErrorTree>;
+}
+
+/**
+ * Chemin vers un champ : segments, notation pointée ("lines.0.quantity")
+ * ou notation crochets ("lines[0].quantity")
+ */
+export type ErrorPath = string | readonly (string | number)[];
+
 /**
  * Interface pour les schémas de validation
  * Établit un contrat uniforme indépendant de l'implémentation spécifique de validation
@@ -52,41 +94,440 @@ export interface ValidationSchema<T = unknown> {
   ): { success: true; data: T } | { success: false; error: ValidationError };
 }
 
+/**
+ * Valide des données avec un schéma, de manière asynchrone si le schéma le permet
+ * Les raffinements asynchrones (unicité, vérifications distantes) ne sont appliqués
+ * que par `parseAsync`
+ *
+ * @param schema Schéma de validation
+ * @param data Données à valider
+ * @returns Données validées et transformées
+ * @throws ValidationError si la validation échoue
+ */
+export async function parseSchema<T>(
+  schema: ValidationSchema<T>,
+  data: unknown
+): Promise<T> {
+  return schema.parseAsync ? schema.parseAsync(data) : schema.parse(data);
+}
+
+/**
+ * Clés désignant les erreurs du formulaire dans un dictionnaire d'erreurs serveur
+ */
+const FORM_ERROR_KEYS = ["", "_form", "non_field_errors", "__all__"];
+
+/**
+ * Décompose un chemin en segments, les index de tableau étant numériques
+ *
+ * @param path Chemin en segments, en notation pointée ou crochets
+ * @returns Segments du chemin
+ */
+export function toPathSegments(path: ErrorPath): (string | number)[] {
+  const segments =
+    typeof path === "string"
+      ? path
+          .replace(/\[([^\]]*)\]/g, ".$1")
+          .split(".")
+          .filter((segment) => segment !== "")
+      : path;
+  return segments.map((segment) =>
+    typeof segment === "string" && /^\d+$/.test(segment)
+      ? Number(segment)
+      : segment
+  );
+}
+
+/**
+ * Chemin d'une erreur reçue : segments, notation pointée ou pointeur JSON
+ * (`/data/attributes/name`, ramené à l'attribut)
+ */
+function toIssuePath(path: unknown): (string | number)[] {
+  if (Array.isArray(path)) {
+    return toPathSegments(path);
+  }
+  if (typeof path !== "string" || FORM_ERROR_KEYS.includes(path)) {
+    return [];
+  }
+  return path.startsWith("/")
+    ? toPathSegments(
+        path
+          .replace(/^\/data\/attributes\//, "")
+          .split("/")
+          .filter((segment) => segment !== "")
+      )
+    : toPathSegments(path);
+}
+
+/**
+ * Vérifie qu'une valeur est un objet dont les propriétés peuvent être lues
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object";
+}
+
+/**
+ * Normalise des erreurs reçues en liste d'échecs élémentaires
+ *
+ * Formats acceptés :
+ * - dictionnaire `{ champ: message }` ou `{ champ: [messages] }`
+ * - liste d'issues `{ path | loc | field | source.pointer, message | msg | detail }`
+ *   (Zod, FastAPI, JSON:API...)
+ *
+ * Une erreur sans champ (ou sous une clé `_form`, `non_field_errors`, `__all__`)
+ * porte sur le formulaire. Le code d'une issue est repris s'il est fourni.
+ *
+ * @param source Erreurs reçues
+ * @param defaultCode Code des erreurs qui n'en précisent pas (par défaut : "server")
+ * @returns Échecs élémentaires, dans l'ordre
+ */
+export function toValidationIssues(
+  source: unknown,
+  defaultCode = "server"
+): ValidationIssue[] {
+  if (!source || typeof source !== "object") {
+    return [];
+  }
+
+  const entries: [unknown, unknown, unknown][] = Array.isArray(source)
+    ? source.map((issue: unknown) => {
+        const record: Record<string, unknown> = isRecord(issue) ? issue : {};
+        const {
+          path,
+          loc,
+          field,
+          source: origin,
+          message,
+          msg,
+          detail,
+          code,
+        } = record;
+        return [
+          path ??
+            loc ??
+            field ??
+            (isRecord(origin) ? origin.pointer : undefined),
+          message ?? msg ?? detail,
+          code,
+        ];
+      })
+    : Object.entries(source).map(([path, messages]) => [
+        path,
+        messages,
+        undefined,
+      ]);
+
+  return entries.flatMap(([path, messages, code]) =>
+    (Array.isArray(messages) ? messages : [messages])
+      .filter((message): message is string => typeof message === "string")
+      .map((message) => ({
+        path: toIssuePath(path),
+        message,
+        code: typeof code === "string" ? code : defaultCode,
+      }))
+  );
+}
+
+/**
+ * Premier message de chaque champ, par chemin pointé
+ */
+function toFirstFieldErrors(issues: ValidationIssue[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  issues.forEach(({ path, message }) => {
+    const field = path.join(".");
+    if (field && !(field in errors)) {
+      errors[field] = message;
+    }
+  });
+  return errors;
+}
+
+/**
+ * Normalise des erreurs par champ au format `ValidationError.errors`
+ * (formats acceptés : voir `toValidationIssues`)
+ *
+ * @param source Erreurs reçues
+ * @returns Premier message de chaque champ, undefined si aucun n'est reconnu
+ */
+export function toFieldErrors(
+  source: unknown
+): Record<string, string> | undefined {
+  const errors = toFirstFieldErrors(toValidationIssues(source));
+  return Object.keys(errors).length > 0 ? errors : undefined;
+}
+
+/**
+ * Construit l'arbre des erreurs à partir d'échecs élémentaires
+ *
+ * @param issues Échecs élémentaires
+ * @returns Arbre des erreurs, les messages de chaque nœud dans l'ordre des échecs
+ */
+export function createErrorTree(
+  issues: ValidationIssue[]
+): ValidationErrorTree {
+  const root: ValidationErrorTree = { messages: [], codes: [], children: {} };
+  issues.forEach(({ path, message, code }) => {
+    const node = path.reduce<ValidationErrorTree>((parent, segment) => {
+      const key = String(segment);
+      parent.children[key] ??= { messages: [], codes: [], children: {} };
+      return parent.children[key];
+    }, root);
+    node.messages.push(message);
+    node.codes.push(code ?? "custom");
+  });
+  return root;
+}
+
+/**
+ * Crée une erreur de validation à partir d'échecs élémentaires
+ *
+ * @param issues Échecs élémentaires
+ * @param message Message global (par défaut : message "validation_failed" du catalogue anglais)
+ * @returns Erreur de validation (dictionnaire, arbre et chemin du premier champ en erreur)
+ */
+export function createValidationError(
+  issues: ValidationIssue[],
+  message = formatMessage("validation_failed")
+): ValidationError & {
+  errors: Record<string, string>;
+  tree: ValidationErrorTree;
+} {
+  return {
+    message,
+    code: "validation_failed",
+    errors: toFirstFieldErrors(issues),
+    path: issues.find((issue) => issue.path.length > 0)?.path ?? [],
+    tree: createErrorTree(issues),
+  };
+}
+
+/**
+ * Arbre des erreurs d'une erreur de validation, déduit de son dictionnaire à défaut
+ */
+function resolveErrorTree(
+  source: ValidationError | ValidationErrorTree | null | undefined
+): ValidationErrorTree | undefined {
+  if (!source) {
+    return undefined;
+  }
+  if ("children" in source && "messages" in source) {
+    return source;
+  }
+  if (source.tree) {
+    return source.tree;
+  }
+  return source.errors
+    ? createErrorTree(toValidationIssues(source.errors, "custom"))
+    : undefined;
+}
+
+/**
+ * Sous-arbre des erreurs à un chemin
+ *
+ * @param source Erreur de validation (ou CrudValidationError) ou arbre d'erreurs
+ * @param path Chemin du champ (par défaut : racine)
+ * @returns Sous-arbre, undefined si aucune erreur n'existe à ce chemin
+ */
+export function getErrorTree(
+  source: ValidationError | ValidationErrorTree | null | undefined,
+  path: ErrorPath = []
+): ValidationErrorTree | undefined {
+  return toPathSegments(path).reduce<ValidationErrorTree | undefined>(
+    (node, segment) => node?.children[String(segment)],
+    resolveErrorTree(source)
+  );
+}
+
+/**
+ * Messages d'erreur d'un champ (hors champs imbriqués)
+ *
+ * @example getErrors(error, "lines[0].quantity")
+ */
+export function getErrors(
+  source: ValidationError | ValidationErrorTree | null | undefined,
+  path: ErrorPath
+): string[] {
+  return getErrorTree(source, path)?.messages ?? [];
+}
+
+/**
+ * Codes d'erreur d'un champ (hors champs imbriqués), dans l'ordre des messages
+ */
+export function getErrorCodes(
+  source: ValidationError | ValidationErrorTree | null | undefined,
+  path: ErrorPath
+): string[] {
+  return getErrorTree(source, path)?.codes ?? [];
+}
+
+/**
+ * Premier message d'erreur d'un champ
+ */
+export function getError(
+  source: ValidationError | ValidationErrorTree | null | undefined,
+  path: ErrorPath
+): string | undefined {
+  return getErrors(source, path)[0];
+}
+
+/**
+ * Erreurs portant sur l'ensemble du formulaire
+ */
+export function getFormErrors(
+  source: ValidationError | ValidationErrorTree | null | undefined
+): string[] {
+  return getErrors(source, []);
+}
+
+/**
+ * Indique si un champ ou l'un de ses champs imbriqués est en erreur
+ *
+ * @param source Erreur de validation ou arbre d'erreurs
+ * @param path Chemin du champ (par défaut : racine, soit toute erreur)
+ */
+export function hasErrors(
+  source: ValidationError | ValidationErrorTree | null | undefined,
+  path: ErrorPath = []
+): boolean {
+  const hasMessages = (node: ValidationErrorTree): boolean =>
+    node.messages.length > 0 || Object.values(node.children).some(hasMessages);
+  const node = getErrorTree(source, path);
+  return node !== undefined && hasMessages(node);
+}
+
+/**
+ * Code et paramètres d'un échec Zod
+ * Un raffinement peut fournir son propre code via `params: { code }`
+ */
+function toZodCode(issue: z.ZodIssueOptionalMessage): {
+  code: string;
+  params: MessageParams;
+} {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return issue.received === "undefined"
+        ? { code: "required", params: {} }
+        : {
+            code: "invalid_type",
+            params: { expected: issue.expected, received: issue.received },
+          };
+    case z.ZodIssueCode.too_small:
+      return {
+        code: "too_small",
+        params: {
+          type: issue.type,
+          minimum: issue.minimum,
+          inclusive: issue.inclusive,
+          exclusive: !issue.inclusive,
+          exact: issue.exact,
+        },
+      };
+    case z.ZodIssueCode.too_big:
+      return {
+        code: "too_big",
+        params: {
+          type: issue.type,
+          maximum: issue.maximum,
+          inclusive: issue.inclusive,
+          exclusive: !issue.inclusive,
+          exact: issue.exact,
+        },
+      };
+    case z.ZodIssueCode.invalid_string:
+      return {
+        code: "invalid_format",
+        params: {
+          format:
+            typeof issue.validation === "string"
+              ? issue.validation
+              : Object.keys(issue.validation)[0],
+        },
+      };
+    case z.ZodIssueCode.invalid_enum_value:
+      return {
+        code: "invalid_value",
+        params: { options: issue.options.join(", ") },
+      };
+    case z.ZodIssueCode.invalid_date:
+      return { code: "invalid_date", params: {} };
+    case z.ZodIssueCode.custom:
+      return {
+        code:
+          typeof issue.params?.code === "string" ? issue.params.code : "custom",
+        params: issue.params ?? {},
+      };
+    default:
+      return { code: "invalid_value", params: {} };
+  }
+}
+
+/**
+ * Options d'analyse Zod remplaçant ses messages par défaut par ceux d'un catalogue
+ * Sans catalogue, les messages de Zod sont conservés ; ceux fournis par un schéma
+ * restent prioritaires
+ */
+function toZodParseParams(
+  catalogue?: MessageCatalogue
+): Partial<z.ParseParams> | undefined {
+  if (!catalogue) {
+    return undefined;
+  }
+  return {
+    errorMap: (issue) => {
+      const { code, params } = toZodCode(issue);
+      return { message: formatMessage(code, params, catalogue) };
+    },
+  };
+}
+
+/**
+ * Options des messages d'une validation
+ */
+export interface ValidationMessageOptions {
+  /**
+   * Catalogue des messages (ex: `frMessages`, selon la langue de l'utilisateur)
+   * Par défaut : messages de Zod et message global anglais
+   */
+  messages?: MessageCatalogue;
+}
+
+/**
+ * Échecs élémentaires d'une erreur Zod
+ */
+function toZodIssues(error: z.ZodError): ValidationIssue[] {
+  return error.errors.map((issue) => ({
+    path: issue.path,
+    message: issue.message,
+    ...toZodCode(issue),
+  }));
+}
+
 /**
  * Adaptateur pour transformer un schéma Zod en ValidationSchema
  * Permet d'utiliser Zod tout en respectant l'interface générique
  *
  * @param schema Schéma Zod à adapter
+ * @param options Catalogue des messages
  * @returns ValidationSchema compatible avec l'architecture CRUD
  */
 export function createZodValidationSchema<T>(
-  schema: z.ZodType<T>
+  schema: z.ZodType<T>,
+  options: ValidationMessageOptions = {}
 ): ValidationSchema<T> {
+  const parseParams = toZodParseParams(options.messages);
+  const toError = (error: z.ZodError) =>
+    createValidationError(
+      toZodIssues(error),
+      formatMessage("validation_failed", {}, options.messages)
+    );
+
   return {
     parse: (data: unknown): T => {
       try {
-        return schema.parse(data);
+        return schema.parse(data, parseParams);
       } catch (error) {
         if (error instanceof z.ZodError) {
-          const validationError: ValidationError = {
-            message: "Validation failed",
-            errors: {},
-            path: [],
-          };
-
           // Transforme les erreurs Zod en format uniforme
-          error.errors.forEach((err) => {
-            if (err.path.length > 0) {
-              const path = err.path.join(".");
-              validationError.errors![path] = err.message;
-            }
-
-            if (validationError.path?.length === 0 && err.path.length > 0) {
-              validationError.path = err.path;
-            }
-          });
-
-          throw validationError;
+          throw toError(error);
         }
         throw error;
       }
@@ -94,62 +535,69 @@ export function createZodValidationSchema<T>(
 
     parseAsync: async (data: unknown): Promise<T> => {
       try {
-        return await schema.parseAsync(data);
+        return await schema.parseAsync(data, parseParams);
       } catch (error) {
         if (error instanceof z.ZodError) {
-          const validationError: ValidationError = {
-            message: "Validation failed",
-            errors: {},
-            path: [],
-          };
-
           // Transforme les erreurs Zod en format uniforme
-          error.errors.forEach((err) => {
-            if (err.path.length > 0) {
-              const path = err.path.join(".");
-              validationError.errors![path] = err.message;
-            }
-
-            if (validationError.path?.length === 0 && err.path.length > 0) {
-              validationError.path = err.path;
-            }
-          });
-
-          throw validationError;
+          throw toError(error);
         }
         throw error;
       }
     },
 
     safeParse: (data: unknown) => {
-      const result = schema.safeParse(data);
+      const result = schema.safeParse(data, parseParams);
       if (result.success) {
         return { success: true, data: result.data };
       } else {
-        const validationError: ValidationError = {
-          message: "Validation failed",
-          errors: {},
-          path: [],
-        };
-
         // Transforme les erreurs Zod en format uniforme
-        result.error.errors.forEach((err) => {
-          if (err.path.length > 0) {
-            const path = err.path.join(".");
-            validationError.errors![path] = err.message;
-          }
-
-          if (validationError.path?.length === 0 && err.path.length > 0) {
-            validationError.path = err.path;
-          }
-        });
-
-        return { success: false, error: validationError };
+        return {
+          success: false,
+          error: toError(result.error),
+        };
       }
     },
   };
 }
 
+/**
+ * Validateur asynchrone d'un champ (unicité, vérification distante...)
+ * Le signal est annulé lorsqu'une nouvelle valeur remplace celle en cours de vérification,
+ * ou lorsqu'une nouvelle validation des données complètes remplace la précédente
+ *
+ * @returns Message d'erreur, ou une valeur vide si le champ est valide
+ */
+export type AsyncFieldValidator<T, K extends keyof T> = (
+  value: T[K],
+  context: { data: Partial<T>; signal: AbortSignal }
+) => Promise<string | undefined | void>;
+
+/**
+ * Vérification asynchrone différée d'un champ, en attente ou en cours
+ */
+interface PendingFieldCheck {
+  timer: ReturnType<typeof setTimeout>;
+  controller: AbortController;
+  resolvers: ((message: string) => void)[];
+}
+
+/**
+ * Configuration d'un validateur de formulaire
+ */
+export interface ValidatorSchemas<T extends Record<string, unknown>>
+  extends ValidationMessageOptions {
+  /** Schéma des données complètes, appliqué à la soumission */
+  submit?: z.ZodType<T>;
+  /** Schéma partiel, repli de la validation en temps réel d'un champ */
+  live?: z.ZodType<Partial<T>>;
+  /** Schémas par champ, prioritaires pour la validation en temps réel */
+  fields?: Record<keyof T, z.ZodType<unknown>>;
+  /** Validateurs asynchrones par champ */
+  asyncFields?: { [K in keyof T]?: AsyncFieldValidator<T, K> };
+  /** Délai de regroupement des validations asynchrones d'un champ (par défaut : 300 ms) */
+  asyncDebounceMs?: number;
+}
+
 /**
  * Crée un validateur complet qui gère à la fois la validation des formulaires et les validations en temps réel
  *
@@ -157,11 +605,100 @@ export function createZodValidationSchema<T>(
  * @param schemas Configuration des schémas de validation
  * @returns Validateur avec méthodes pour différents contextes de validation
  */
-export function createValidator<T extends Record<string, unknown>>(schemas: {
-  submit?: z.ZodType<T>;
-  live?: z.ZodType<Partial<T>>;
-  fields?: Record<keyof T, z.ZodType<unknown>>;
-}) {
+export function createValidator<T extends Record<string, unknown>>(
+  schemas: ValidatorSchemas<T>
+) {
+  const debounceMs = schemas.asyncDebounceMs ?? 300;
+  const parseParams = toZodParseParams(schemas.messages);
+  const pendingChecks = new Map<keyof T, PendingFieldCheck>();
+  const submitChecks = new Map<keyof T, AbortController>();
+
+  /**
+   * Valide un champ spécifique en temps réel
+   */
+  const validateField = <K extends keyof T>(
+    field: K,
+    value: unknown
+  ): string => {
+    // Utilise le schéma de champ spécifique s'il existe
+    if (schemas.fields && schemas.fields[field]) {
+      try {
+        schemas.fields[field].parse(value, parseParams);
+        return "";
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return error.errors[0]?.message || "";
+        }
+        return formatMessage("unknown", {}, schemas.messages);
+      }
+    }
+
+    // Repli sur le schéma live pour la validation partielle
+    if (schemas.live) {
+      try {
+        schemas.live.parse({ [field]: value } as Partial<T>, parseParams);
+        return "";
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          const fieldError = error.errors.find(
+            (err) => err.path.length > 0 && err.path[0] === field
+          );
+          return fieldError?.message || "";
+        }
+        return formatMessage("unknown", {}, schemas.messages);
+      }
+    }
+
+    return "";
+  };
+
+  /**
+   * Exécute les validateurs asynchrones de champs sur des données complètes
+   */
+  const validateAsyncFields = async (data: T): Promise<ValidationIssue[]> => {
+    const results = await Promise.all(
+      (Object.keys(schemas.asyncFields ?? {}) as (keyof T)[]).map(
+        async (field): Promise<ValidationIssue[]> => {
+          const validator = schemas.asyncFields?.[field];
+          if (!validator) {
+            return [];
+          }
+
+          // Une nouvelle validation remplace la vérification en cours du champ
+          submitChecks.get(field)?.abort();
+          const controller = new AbortController();
+          submitChecks.set(field, controller);
+
+          try {
+            const message = await validator(data[field], {
+              data,
+              signal: controller.signal,
+            });
+            return message
+              ? [{ path: [field as string], message, code: "custom" }]
+              : [];
+          } finally {
+            if (submitChecks.get(field) === controller) {
+              submitChecks.delete(field);
+            }
+          }
+        }
+      )
+    );
+    return results.flat();
+  };
+
+  /**
+   * Erreur de soumission : Error enrichie des erreurs par champ et de leur arbre
+   */
+  const createSubmitError = (issues: ValidationIssue[]) => {
+    const { message, code, errors, tree } = createValidationError(
+      issues,
+      formatMessage("validation_failed", {}, schemas.messages)
+    );
+    return Object.assign(new Error(message), { code, errors, tree });
+  };
+
   return {
     /**
      * Valide les données soumises (formulaire complet)
@@ -172,72 +709,129 @@ export function createValidator<T extends Record<string, unknown>>(schemas: {
       }
 
       try {
-        return schemas.submit.parse(data);
+        return schemas.submit.parse(data, parseParams);
       } catch (error) {
         if (error instanceof z.ZodError) {
-          const errors: Record<string, string> = {};
-
-          error.errors.forEach((err) => {
-            if (err.path.length > 0) {
-              errors[err.path[0] as string] = err.message;
-            }
-          });
-
-          const validationError = new Error("Validation failed") as Error & {
-            errors: Record<string, string>;
-          };
-          validationError.errors = errors;
-          throw validationError;
+          throw createSubmitError(toZodIssues(error));
         }
         throw error;
       }
     },
 
+    validateField,
+
     /**
-     * Valide un champ spécifique en temps réel
+     * Valide un champ en temps réel, validateurs asynchrones compris
+     * La validation synchrone est immédiate ; le validateur asynchrone n'est exécuté
+     * qu'après `asyncDebounceMs` sans nouvel appel pour le même champ, et tous les appels
+     * regroupés reçoivent le résultat de la dernière valeur
+     *
+     * @returns Message d'erreur, chaîne vide si le champ est valide
      */
-    validateField: <K extends keyof T>(field: K, value: unknown): string => {
-      // Utilise le schéma de champ spécifique s'il existe
-      if (schemas.fields && schemas.fields[field]) {
-        try {
-          schemas.fields[field].parse(value);
-          return "";
-        } catch (error) {
-          if (error instanceof z.ZodError) {
-            return error.errors[0]?.message || "";
-          }
-          return "Erreur inconnue";
-        }
+    validateFieldAsync: <K extends keyof T>(
+      field: K,
+      value: T[K],
+      data?: Partial<T>
+    ): Promise<string> => {
+      const syncMessage = validateField(field, value);
+      const validator = schemas.asyncFields?.[field];
+      const previous = pendingChecks.get(field);
+
+      // Une nouvelle valeur remplace la vérification en attente ou en cours
+      if (previous) {
+        clearTimeout(previous.timer);
+        previous.controller.abort();
       }
 
-      // Repli sur le schéma live pour la validation partielle
-      if (schemas.live) {
-        try {
-          schemas.live.parse({ [field]: value } as Partial<T>);
-          return "";
-        } catch (error) {
-          if (error instanceof z.ZodError) {
-            const fieldError = error.errors.find(
-              (err) => err.path.length > 0 && err.path[0] === field
-            );
-            return fieldError?.message || "";
-          }
-          return "Erreur inconnue";
+      if (syncMessage || !validator) {
+        previous?.resolvers.forEach((resolve) => resolve(syncMessage));
+        pendingChecks.delete(field);
+        return Promise.resolve(syncMessage);
+      }
+
+      return new Promise<string>((resolve) => {
+        const check: PendingFieldCheck = {
+          controller: new AbortController(),
+          resolvers: [...(previous?.resolvers ?? []), resolve],
+          timer: setTimeout(async () => {
+            let message: string;
+            try {
+              message =
+                (await validator(value, {
+                  data: { ...data, [field]: value } as Partial<T>,
+                  signal: check.controller.signal,
+                })) || "";
+            } catch (error) {
+              message = error instanceof Error ? error.message : String(error);
+            }
+
+            // Résultat d'une valeur remplacée entre-temps : ignoré
+            if (pendingChecks.get(field) !== check) {
+              return;
+            }
+            pendingChecks.delete(field);
+            check.resolvers.forEach((resolveCheck) => resolveCheck(message));
+          }, debounceMs),
+        };
+        pendingChecks.set(field, check);
+      });
+    },
+
+    /**
+     * Valide les données soumises, validateurs asynchrones de champs compris
+     */
+    validateSubmitAsync: async (data: unknown): Promise<T> => {
+      if (!schemas.submit) {
+        throw new Error("Submit validation schema not defined");
+      }
+
+      let parsed: T;
+      try {
+        parsed = await schemas.submit.parseAsync(data, parseParams);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw createSubmitError(toZodIssues(error));
         }
+        throw error;
       }
 
-      return "";
+      const issues = await validateAsyncFields(parsed);
+      if (issues.length > 0) {
+        throw createSubmitError(issues);
+      }
+      return parsed;
     },
 
     /**
      * Convertit un schéma zod en ValidationSchema pour l'architecture CRUD
+     * Les validateurs asynchrones de champs sont appliqués par `parseAsync`
      */
     toValidationSchema: (): ValidationSchema<T> => {
       if (!schemas.submit) {
         throw new Error("Submit validation schema not defined");
       }
 
-      return createZodValidationSchema(schemas.submit);
+      const schema = createZodValidationSchema(schemas.submit, {
+        messages: schemas.messages,
+      });
+      if (!schemas.asyncFields) {
+        return schema;
+      }
+
+      return {
+        ...schema,
+        parseAsync: async (data: unknown): Promise<T> => {
+          const parsed = await schema.parseAsync!(data);
+          const issues = await validateAsyncFields(parsed);
+          if (issues.length > 0) {
+            throw createValidationError(
+              issues,
+              formatMessage("validation_failed", {}, schemas.messages)
+            );
+          }
+          return parsed;
+        },
+      };
     },
   };
 }